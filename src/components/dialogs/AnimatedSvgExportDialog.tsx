@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  AnimatedSvgExportOptions,
+  AnimatedSvgFormat,
+  defaultAnimatedSvgExportOptions,
+  sampledFrames,
+} from '@/lib/animatedSvgExport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface AnimatedSvgExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultWidth?: number;
+  defaultHeight?: number;
+  totalFrames: number;
+  fps: number;
+  onExport: (options: AnimatedSvgExportOptions) => void;
+}
+
+const formats: { id: AnimatedSvgFormat; label: string }[] = [
+  { id: 'smil', label: 'SMIL' },
+  { id: 'css', label: 'CSS Keyframes' },
+];
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min = 0, max, onChange }) => (
+  <div>
+    <Label className="text-[10px] text-muted-foreground">{label}</Label>
+    <Input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      onChange={(e) => {
+        const num = parseInt(e.target.value, 10);
+        if (!Number.isFinite(num)) return;
+        onChange(Math.max(min, max !== undefined ? Math.min(max, num) : num));
+      }}
+      className="h-7 text-xs bg-secondary/50 border-border/50"
+    />
+  </div>
+);
+
+export const AnimatedSvgExportDialog: React.FC<AnimatedSvgExportDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultWidth = defaultAnimatedSvgExportOptions.width,
+  defaultHeight = defaultAnimatedSvgExportOptions.height,
+  totalFrames,
+  fps,
+  onExport,
+}) => {
+  const [options, setOptions] = useState<AnimatedSvgExportOptions>(defaultAnimatedSvgExportOptions);
+
+  // Start from the current viewport size and timeline range each time the dialog opens
+  const [lastOpen, setLastOpen] = useState(false);
+  if (open !== lastOpen) {
+    setLastOpen(open);
+    if (open) {
+      setOptions(prev => ({
+        ...prev,
+        width: Math.round(defaultWidth),
+        height: Math.round(defaultHeight),
+        fps,
+        startFrame: 0,
+        endFrame: totalFrames - 1,
+      }));
+    }
+  }
+
+  const update = (updates: Partial<AnimatedSvgExportOptions>) =>
+    setOptions(prev => ({ ...prev, ...updates }));
+
+  const frameCount = sampledFrames(options).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-panel border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Animated SVG</DialogTitle>
+          <DialogDescription>
+            Sample the timeline and save it as a single animated SVG.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Format */}
+          <div className="flex gap-2">
+            {formats.map((format) => (
+              <Button
+                key={format.id}
+                variant="outline"
+                size="sm"
+                className={cn(
+                  "flex-1 bg-secondary/30 border-border/50",
+                  options.format === format.id && "bg-primary/20 border-primary/50 text-primary"
+                )}
+                onClick={() => update({ format: format.id })}
+              >
+                {format.label}
+              </Button>
+            ))}
+          </div>
+
+          {/* Size */}
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Width" value={options.width} min={1} onChange={(width) => update({ width })} />
+            <NumberField label="Height" value={options.height} min={1} onChange={(height) => update({ height })} />
+            <NumberField label="Decimals" value={options.precision} max={4} onChange={(precision) => update({ precision })} />
+          </div>
+
+          {/* Frame range */}
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              label="Start frame"
+              value={options.startFrame}
+              max={totalFrames - 1}
+              onChange={(startFrame) => update({ startFrame })}
+            />
+            <NumberField
+              label="End frame"
+              value={options.endFrame}
+              max={totalFrames - 1}
+              onChange={(endFrame) => update({ endFrame })}
+            />
+            <NumberField
+              label="Every Nth"
+              value={options.frameStep}
+              min={1}
+              onChange={(frameStep) => update({ frameStep })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground uppercase tracking-wider">Loop</Label>
+            <Switch checked={options.loop} onCheckedChange={(loop) => update({ loop })} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground uppercase tracking-wider">Background</Label>
+            <Switch
+              checked={options.background !== null}
+              onCheckedChange={(checked) => update({
+                background: checked ? defaultAnimatedSvgExportOptions.background : null,
+              })}
+            />
+          </div>
+
+          <div className="text-xs text-muted-foreground font-mono">
+            {frameCount} samples @ {options.fps} fps
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            size="sm"
+            className="gap-2"
+            disabled={frameCount === 0}
+            onClick={() => onExport(options)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { SvgExportOptions, defaultSvgExportOptions } from '@/lib/svgExport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface SvgExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultWidth?: number;
+  defaultHeight?: number;
+  onExport: (options: SvgExportOptions) => void;
+}
+
+interface ToggleRowProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, checked, onChange }) => (
+  <div className="flex items-center justify-between">
+    <Label className="text-xs text-muted-foreground uppercase tracking-wider">{label}</Label>
+    <Switch checked={checked} onCheckedChange={onChange} />
+  </div>
+);
+
+export const SvgExportDialog: React.FC<SvgExportDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultWidth = defaultSvgExportOptions.width,
+  defaultHeight = defaultSvgExportOptions.height,
+  onExport,
+}) => {
+  const [options, setOptions] = useState<SvgExportOptions>(defaultSvgExportOptions);
+  const [backgroundColor, setBackgroundColor] = useState(defaultSvgExportOptions.background ?? '#0a0a0a');
+
+  // Start from the current viewport size each time the dialog opens
+  const [lastOpen, setLastOpen] = useState(false);
+  if (open !== lastOpen) {
+    setLastOpen(open);
+    if (open) {
+      setOptions(prev => ({
+        ...prev,
+        width: Math.round(defaultWidth),
+        height: Math.round(defaultHeight),
+      }));
+    }
+  }
+
+  const update = (updates: Partial<SvgExportOptions>) =>
+    setOptions(prev => ({ ...prev, ...updates }));
+
+  const parseSize = (value: string, fallback: number) => {
+    const num = parseInt(value, 10);
+    return Number.isFinite(num) && num > 0 ? num : fallback;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-panel border-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export SVG</DialogTitle>
+          <DialogDescription>
+            Save the current view as a standalone SVG document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Size */}
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-[10px] text-muted-foreground">Width</Label>
+              <Input
+                type="number"
+                value={options.width}
+                onChange={(e) => update({ width: parseSize(e.target.value, options.width) })}
+                className="h-7 text-xs bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div>
+              <Label className="text-[10px] text-muted-foreground">Height</Label>
+              <Input
+                type="number"
+                value={options.height}
+                onChange={(e) => update({ height: parseSize(e.target.value, options.height) })}
+                className="h-7 text-xs bg-secondary/50 border-border/50"
+              />
+            </div>
+            <div>
+              <Label className="text-[10px] text-muted-foreground">Decimals</Label>
+              <Input
+                type="number"
+                min={0}
+                max={4}
+                value={options.precision}
+                onChange={(e) => update({
+                  precision: Math.max(0, Math.min(4, parseInt(e.target.value, 10) || 0)),
+                })}
+                className="h-7 text-xs bg-secondary/50 border-border/50"
+              />
+            </div>
+          </div>
+
+          {/* Background */}
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-muted-foreground uppercase tracking-wider">Background</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="color"
+                value={backgroundColor}
+                onChange={(e) => {
+                  setBackgroundColor(e.target.value);
+                  if (options.background) update({ background: e.target.value });
+                }}
+                className="w-10 h-7 p-0 border-0 bg-transparent"
+              />
+              <Switch
+                checked={options.background !== null}
+                onCheckedChange={(checked) => update({ background: checked ? backgroundColor : null })}
+              />
+            </div>
+          </div>
+
+          <ToggleRow
+            label="Grid floor"
+            checked={options.includeGrid}
+            onChange={(includeGrid) => update({ includeGrid })}
+          />
+          <ToggleRow
+            label="Line art (hidden-line)"
+            checked={options.lineArt}
+            onChange={(lineArt) => update({ lineArt })}
+          />
+          {options.lineArt ? (
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wider">Line color</Label>
+              <Input
+                type="color"
+                value={options.lineColor}
+                onChange={(e) => update({ lineColor: e.target.value })}
+                className="w-10 h-7 p-0 border-0 bg-transparent"
+              />
+            </div>
+          ) : (
+            <>
+              <ToggleRow
+                label="Merge same-color faces"
+                checked={options.mergeFaces}
+                onChange={(mergeFaces) => update({ mergeFaces })}
+              />
+              <ToggleRow
+                label="Edge strokes"
+                checked={options.strokeEdges}
+                onChange={(strokeEdges) => update({ strokeEdges })}
+              />
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            size="sm"
+            className="gap-2"
+            onClick={() => onExport(options)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useCallback, useId, useRef } from 'react';
+import { FlipVertical2 } from 'lucide-react';
+import { Vector3 } from '@/types/engine';
+import { normalize } from '@/lib/math';
+import { Label } from '@/components/ui/label';
+
+interface DirectionSphereProps {
+  label: string;
+  value: Vector3;
+  onChange: (value: Vector3) => void;
+  // A drag or flip finished
+  onCommit?: () => void;
+  size?: number;
+}
+
+// Pick a unit direction by dragging a point over a sphere seen from the front
+// (+y up, -z toward the viewer). Dragging stays on the hemisphere the point is
+// on; the flip button moves it to the other one.
+export const DirectionSphere: React.FC<DirectionSphereProps> = ({
+  label,
+  value,
+  onChange,
+  onCommit,
+  size = 112,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Hemisphere the current drag started on; the rim clamps z to 0, so it
+  // can't be read back from the value mid-drag
+  const dragFacing = useRef(true);
+  const gradientId = `direction-${useId().replace(/:/g, '')}`;
+  const radius = size / 2 - 4;
+  const center = size / 2;
+
+  const dir = normalize(value);
+  const facing = dir.z <= 0;
+  const dotX = center + dir.x * radius;
+  const dotY = center - dir.y * radius;
+
+  const pick = useCallback((e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    let x = (e.clientX - rect.left - rect.width / 2) / radius;
+    let y = -(e.clientY - rect.top - rect.height / 2) / radius;
+    const r = Math.hypot(x, y);
+    if (r > 1) {
+      x /= r;
+      y /= r;
+    }
+    const z = Math.sqrt(Math.max(0, 1 - x * x - y * y));
+    onChange({ x, y, z: dragFacing.current ? -z : z });
+  }, [radius, onChange]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragFacing.current = facing;
+    pick(e);
+  }, [facing, pick]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) pick(e);
+  }, [pick]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground uppercase tracking-wider">
+          {label}
+        </Label>
+        <span className="text-[10px] font-mono text-foreground">
+          {dir.x.toFixed(2)}, {dir.y.toFixed(2)}, {dir.z.toFixed(2)}
+        </span>
+      </div>
+      <div className="flex items-end gap-2">
+        <svg
+          ref={svgRef}
+          width={size}
+          height={size}
+          className="cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={onCommit}
+        >
+          <defs>
+            {/* Highlight sits where the direction meets the sphere */}
+            <radialGradient
+              id={gradientId}
+              cx={0.5 + dir.x * 0.35}
+              cy={0.5 - dir.y * 0.35}
+              r={0.75}
+            >
+              <stop offset="0" stopColor={facing ? 'hsl(var(--foreground))' : 'hsl(var(--muted-foreground))'} stopOpacity={0.7} />
+              <stop offset="1" stopColor="hsl(var(--secondary))" stopOpacity={0.6} />
+            </radialGradient>
+          </defs>
+          <circle cx={center} cy={center} r={radius} fill={`url(#${gradientId})`} stroke="hsl(var(--border))" />
+          {/* Equator and meridian */}
+          <ellipse cx={center} cy={center} rx={radius} ry={radius * 0.3} fill="none" stroke="hsl(var(--border))" strokeDasharray="2 3" />
+          <ellipse cx={center} cy={center} rx={radius * 0.3} ry={radius} fill="none" stroke="hsl(var(--border))" strokeDasharray="2 3" />
+          <line x1={center} y1={center} x2={dotX} y2={dotY} stroke="hsl(var(--primary))" strokeWidth={1.5} />
+          <circle
+            cx={dotX}
+            cy={dotY}
+            r={5}
+            fill={facing ? 'hsl(var(--primary))' : 'hsl(var(--background))'}
+            stroke="hsl(var(--primary))"
+            strokeWidth={1.5}
+          />
+        </svg>
+        <button
+          className="p-1 text-muted-foreground hover:text-primary transition-colors"
+          onClick={() => {
+            onChange({ ...dir, z: -dir.z });
+            onCommit?.();
+          }}
+          title={facing ? 'Point away from the viewer' : 'Point toward the viewer'}
+        >
+          <FlipVertical2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Undo2, Redo2, CircleDot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface HistoryDrawerProps {
+  entries: { id: number; label: string }[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({
+  entries,
+  currentIndex,
+  onJump,
+  onUndo,
+  onRedo,
+}) => {
+  return (
+    <div className="p-4 space-y-4">
+      {/* Step controls */}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 gap-2 bg-secondary/30 border-border/50"
+          onClick={onUndo}
+          disabled={currentIndex === 0}
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 gap-2 bg-secondary/30 border-border/50"
+          onClick={onRedo}
+          disabled={currentIndex === entries.length}
+        >
+          <Redo2 className="w-4 h-4" />
+          Redo
+        </Button>
+      </div>
+
+      {/* Entry list */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
+          History ({entries.length})
+        </div>
+        <div className="space-y-1">
+          {/* Initial state sits before the first entry */}
+          {[{ id: 0, label: 'Initial State' }, ...entries].map((entry, index) => (
+            <div
+              key={entry.id}
+              className={cn(
+                "flex items-center gap-2 p-2 rounded cursor-pointer text-sm",
+                "border border-transparent hover:border-border/50",
+                "transition-all duration-150",
+                index === currentIndex && "bg-primary/10 border-primary/30 text-primary",
+                index > currentIndex && "text-muted-foreground/50"
+              )}
+              onClick={() => onJump(index)}
+            >
+              <CircleDot
+                className={cn(
+                  "w-3 h-3 flex-shrink-0",
+                  index === currentIndex ? "text-primary" : "text-muted-foreground/40"
+                )}
+              />
+              <span className="flex-1 truncate">{entry.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { Light, LightType } from '@/types/engine';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Vector3Input, PropertySlider } from '@/components/drawers/PropertiesDrawer';
+import { DirectionSphere } from '@/components/drawers/DirectionSphere';
+import { cn } from '@/lib/utils';
+import {
+  isPositionalLight,
+  lightName,
+  changeLightType,
+  DEFAULT_LIGHT_RANGE,
+  DEFAULT_SPOT_ANGLE,
+  DEFAULT_SPOT_PENUMBRA,
+} from '@/lib/lights';
+
+interface LightPropertiesDrawerProps {
+  light: Light;
+  onUpdate: (id: string, updates: Partial<Light>) => void;
+  onDelete: (id: string) => void;
+  // A field edit finished (slider released, input left or confirmed)
+  onEditEnd?: () => void;
+}
+
+const lightTypes: { type: LightType; label: string }[] = [
+  { type: 'ambient', label: 'Ambient' },
+  { type: 'directional', label: 'Direct' },
+  { type: 'point', label: 'Point' },
+  { type: 'spot', label: 'Spot' },
+];
+
+export const LightPropertiesDrawer: React.FC<LightPropertiesDrawerProps> = ({
+  light,
+  onUpdate,
+  onDelete,
+  onEditEnd,
+}) => {
+  const update = (updates: Partial<Light>) => onUpdate(light.id, updates);
+
+  return (
+    <div className="p-4 space-y-6">
+      {/* Light Info */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
+          Light Info
+        </div>
+        <div className="space-y-2">
+          <div>
+            <Label className="text-[10px] text-muted-foreground">Name</Label>
+            <Input
+              value={lightName(light)}
+              onChange={(e) => update({ name: e.target.value })}
+              onBlur={onEditEnd}
+              onKeyDown={(e) => e.key === 'Enter' && onEditEnd?.()}
+              className="h-7 text-xs bg-secondary/50 border-border/50"
+            />
+          </div>
+          <div>
+            <Label className="text-[10px] text-muted-foreground">Type</Label>
+            <div className="grid grid-cols-4 gap-1">
+              {lightTypes.map(({ type, label }) => (
+                <button
+                  key={type}
+                  className={cn(
+                    "h-7 text-[10px] rounded border border-border/30 bg-secondary/30 hover:border-primary/50 transition-colors",
+                    light.type === type && "bg-primary/20 border-primary/50 text-primary"
+                  )}
+                  onClick={() => onUpdate(light.id, changeLightType(light, type))}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Color and strength */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
+          Emission
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="w-8 h-8 rounded border border-border/50"
+            style={{ backgroundColor: light.color }}
+          />
+          <Input
+            type="color"
+            value={light.color}
+            onChange={(e) => update({ color: e.target.value })}
+            onBlur={onEditEnd}
+            className="flex-1 h-8 p-0 border-0 bg-transparent"
+          />
+        </div>
+        <div className="space-y-3 mt-3">
+          <PropertySlider
+            label="Intensity"
+            value={light.intensity}
+            onChange={(intensity) => update({ intensity })}
+            onCommit={onEditEnd}
+            max={3}
+          />
+          {isPositionalLight(light) && (
+            <PropertySlider
+              label="Range"
+              value={light.range ?? DEFAULT_LIGHT_RANGE}
+              onChange={(range) => update({ range })}
+              onCommit={onEditEnd}
+              min={10}
+              max={2000}
+              step={10}
+            />
+          )}
+          {light.type === 'spot' && (
+            <>
+              <PropertySlider
+                label="Cone Angle"
+                value={light.coneAngle ?? DEFAULT_SPOT_ANGLE}
+                onChange={(coneAngle) => update({ coneAngle })}
+                onCommit={onEditEnd}
+                min={1}
+                max={90}
+                step={1}
+              />
+              <PropertySlider
+                label="Penumbra"
+                value={light.penumbra ?? DEFAULT_SPOT_PENUMBRA}
+                onChange={(penumbra) => update({ penumbra })}
+                onCommit={onEditEnd}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Placement */}
+      {(light.position || light.direction) && (
+        <div className="space-y-4">
+          <div className="text-xs text-muted-foreground uppercase tracking-wider">
+            Transform
+          </div>
+
+          {light.position && (
+            <Vector3Input
+              label="Position"
+              value={light.position}
+              onChange={(position) => update({ position })}
+              onCommit={onEditEnd}
+              step={1}
+            />
+          )}
+
+          {light.direction && (
+            <DirectionSphere
+              label={light.type === 'spot' ? 'Aim Direction' : 'Direction'}
+              value={light.direction}
+              onChange={(direction) => update({ direction })}
+              onCommit={onEditEnd}
+            />
+          )}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full gap-2 bg-secondary/30 border-border/50 hover:text-destructive"
+        onClick={() => onDelete(light.id)}
+      >
+        <Trash2 className="w-3 h-3" />
+        Delete Light
+      </Button>
+    </div>
+  );
+};
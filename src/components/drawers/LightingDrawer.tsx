@@ -1,112 +1,204 @@
-import React from 'react';
-import { Sun, Moon, Lightbulb } from 'lucide-react';
+import React, { useState } from 'react';
+import { Sun, Moon, Bookmark, Plus, X } from 'lucide-react';
+import { Light, LightType, LightingPreset, ShadowSettings } from '@/types/engine';
 import { Button } from '@/components/ui/button';
-import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { PropertySlider } from '@/components/drawers/PropertiesDrawer';
+import { LightIcon } from '@/components/engine/LightIcon';
+import { LightPropertiesDrawer } from '@/components/drawers/LightPropertiesDrawer';
+import { lightName, lightTypeLabels } from '@/lib/lights';
 import { cn } from '@/lib/utils';
 
 interface LightingDrawerProps {
-  lightingMode: 'day' | 'night';
-  onLightingModeChange: (mode: 'day' | 'night') => void;
+  lights: Light[];
+  selectedLightId: string | null;
+  // Id of the preset last applied
+  lightingMode: string;
+  presets: LightingPreset[];
+  onApplyPreset: (preset: LightingPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onSelectLight: (id: string | null) => void;
+  onAddLight: (type: LightType) => void;
+  onUpdateLight: (id: string, updates: Partial<Light>) => void;
+  onDeleteLight: (id: string) => void;
+  // A light field edit finished, so the next one starts a new undo step
+  onLightEditEnd?: () => void;
+  shadows: ShadowSettings;
+  onShadowsChange: (shadows: ShadowSettings) => void;
 }
 
+const presetIcon = (preset: LightingPreset) => {
+  if (preset.id === 'day') return <Sun className="w-4 h-4" />;
+  if (preset.id === 'night') return <Moon className="w-4 h-4" />;
+  return <Bookmark className="w-4 h-4" />;
+};
+
+const addableTypes: LightType[] = ['ambient', 'directional', 'point', 'spot'];
+
 export const LightingDrawer: React.FC<LightingDrawerProps> = ({
+  lights,
+  selectedLightId,
   lightingMode,
-  onLightingModeChange,
+  presets,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onSelectLight,
+  onAddLight,
+  onUpdateLight,
+  onDeleteLight,
+  onLightEditEnd,
+  shadows,
+  onShadowsChange,
 }) => {
+  const [presetName, setPresetName] = useState('');
+  const selectedLight = lights.find(light => light.id === selectedLightId) ?? null;
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
   return (
     <div className="p-4 space-y-6">
-      {/* Mode Selection */}
+      {/* Presets */}
       <div>
         <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
-          Lighting Mode
+          Presets
         </div>
-        <div className="flex gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            className={cn(
-              "flex-1 gap-2 bg-secondary/30 border-border/50",
-              lightingMode === 'day' && "bg-warning/20 border-warning/50 text-warning"
-            )}
-            onClick={() => onLightingModeChange('day')}
-          >
-            <Sun className="w-4 h-4" />
-            Day
-          </Button>
+        <div className="grid grid-cols-2 gap-2">
+          {presets.map((preset) => (
+            <div key={preset.id} className="relative group">
+              <Button
+                variant="outline"
+                size="sm"
+                className={cn(
+                  "w-full gap-2 justify-start bg-secondary/30 border-border/50",
+                  lightingMode === preset.id && "bg-primary/20 border-primary/50 text-primary"
+                )}
+                onClick={() => onApplyPreset(preset)}
+              >
+                {presetIcon(preset)}
+                <span className="truncate">{preset.name}</span>
+              </Button>
+              {!preset.builtIn && (
+                <button
+                  className="absolute top-1/2 -translate-y-1/2 right-1.5 p-0.5 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                  onClick={() => onDeletePreset(preset.id)}
+                  title="Delete preset"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Save current lights as…"
+            className="h-8 text-xs bg-secondary/50 border-border/50"
+          />
           <Button
             variant="outline"
             size="sm"
-            className={cn(
-              "flex-1 gap-2 bg-secondary/30 border-border/50",
-              lightingMode === 'night' && "bg-primary/20 border-primary/50 text-primary"
-            )}
-            onClick={() => onLightingModeChange('night')}
+            className="h-8 bg-secondary/30 border-border/50"
+            disabled={!presetName.trim()}
+            onClick={handleSavePreset}
           >
-            <Moon className="w-4 h-4" />
-            Night
+            Save
           </Button>
         </div>
       </div>
-      
-      {/* Ambient Light */}
+
+      {/* Drop shadows */}
       <div>
-        <div className="flex items-center justify-between mb-2">
-          <span className="text-xs text-muted-foreground uppercase tracking-wider">
-            Ambient Intensity
-          </span>
-          <span className="text-xs font-mono text-foreground">
-            {lightingMode === 'day' ? '0.60' : '0.30'}
-          </span>
+        <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+          Shadows
+        </div>
+        <div className="flex items-center justify-between">
+          <Label className="text-[10px] text-muted-foreground">Floor shadows (strongest directional light)</Label>
+          <Switch
+            checked={shadows.enabled}
+            onCheckedChange={(enabled) => onShadowsChange({ ...shadows, enabled })}
+          />
         </div>
-        <Slider
-          defaultValue={[lightingMode === 'day' ? 60 : 30]}
-          max={100}
-          step={1}
-          className="w-full"
-          disabled
-        />
+        {shadows.enabled && (
+          <div className="mt-3">
+            <PropertySlider
+              label="Opacity"
+              value={shadows.opacity}
+              onChange={(opacity) => onShadowsChange({ ...shadows, opacity })}
+            />
+          </div>
+        )}
       </div>
-      
-      {/* Directional Light */}
+
+      {/* Lights */}
       <div>
         <div className="flex items-center justify-between mb-2">
           <span className="text-xs text-muted-foreground uppercase tracking-wider">
-            Directional Intensity
-          </span>
-          <span className="text-xs font-mono text-foreground">
-            {lightingMode === 'day' ? '1.00' : '0.50'}
+            Lights ({lights.length})
           </span>
+          <div className="flex items-center gap-0.5">
+            <Plus className="w-3 h-3 text-muted-foreground mr-0.5" />
+            {addableTypes.map((type) => (
+              <button
+                key={type}
+                className="p-1 text-muted-foreground hover:text-primary transition-colors"
+                onClick={() => onAddLight(type)}
+                title={`Add ${lightTypeLabels[type]}`}
+              >
+                <LightIcon type={type} className="w-3.5 h-3.5" />
+              </button>
+            ))}
+          </div>
         </div>
-        <Slider
-          defaultValue={[lightingMode === 'day' ? 100 : 50]}
-          max={100}
-          step={1}
-          className="w-full"
-          disabled
-        />
-      </div>
-      
-      {/* Preview */}
-      <div>
-        <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
-          Preview
-        </div>
-        <div 
-          className={cn(
-            "h-20 rounded-lg flex items-center justify-center transition-all duration-500",
-            lightingMode === 'day' 
-              ? "bg-gradient-to-br from-orange-200/20 via-yellow-100/20 to-blue-100/10"
-              : "bg-gradient-to-br from-indigo-900/30 via-purple-900/20 to-blue-900/30"
+        <div className="space-y-1">
+          {lights.map((light) => (
+            <div
+              key={light.id}
+              className={cn(
+                "flex items-center gap-2 p-2 rounded cursor-pointer",
+                "border border-transparent hover:border-border/50",
+                "transition-all duration-150",
+                selectedLightId === light.id && "bg-primary/10 border-primary/30"
+              )}
+              onClick={() => onSelectLight(selectedLightId === light.id ? null : light.id)}
+            >
+              <LightIcon type={light.type} className="w-3.5 h-3.5 flex-shrink-0" color={light.color} />
+              <span className="flex-1 text-sm truncate">{lightName(light)}</span>
+              <span className="text-[10px] font-mono text-muted-foreground">
+                {light.intensity.toFixed(2)}
+              </span>
+            </div>
+          ))}
+
+          {lights.length === 0 && (
+            <div className="text-center py-4 text-muted-foreground text-sm">
+              No lights in scene
+            </div>
           )}
-        >
-          <Lightbulb 
-            className={cn(
-              "w-8 h-8 transition-all duration-500",
-              lightingMode === 'day' ? "text-warning drop-shadow-[0_0_10px_rgba(234,179,8,0.5)]" : "text-primary/60"
-            )} 
-          />
         </div>
       </div>
+
+      {/* Selected light */}
+      {selectedLight && (
+        <div className="-mx-4 border-t border-border/30">
+          <LightPropertiesDrawer
+            light={selectedLight}
+            onUpdate={onUpdateLight}
+            onDelete={onDeleteLight}
+            onEditEnd={onLightEditEnd}
+          />
+        </div>
+      )}
     </div>
   );
 };
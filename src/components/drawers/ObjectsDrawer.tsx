@@ -1,5 +1,5 @@
 import React from 'react';
-import { Box, Circle, Cylinder, Hexagon, Triangle, Donut, Trash2, Eye, EyeOff, Lock, Unlock, Droplets, Cloud, Flame } from 'lucide-react';
+import { Box, Circle, Cylinder, Hexagon, Triangle, Donut, Trash2, Eye, EyeOff, Lock, Unlock, Droplets, Cloud, Flame, Lightbulb, Flashlight } from 'lucide-react';
 import { SceneObject, PrimitiveType } from '@/types/engine';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -9,6 +9,7 @@ interface ObjectsDrawerProps {
   selectedId: string | null;
   onSelect: (id: string) => void;
   onAdd: (type: PrimitiveType) => void;
+  onAddLight: (type: 'point' | 'spot') => void;
   onDelete: (id: string) => void;
   onToggleVisibility: (id: string) => void;
   onToggleLock: (id: string) => void;
@@ -29,11 +30,17 @@ const effectButtons: { type: PrimitiveType; icon: React.ReactNode; label: string
   { type: 'cloudVolume', icon: <Cloud className="w-4 h-4 text-gray-300" />, label: 'Cloud' },
 ];
 
+const lightButtons: { type: 'point' | 'spot'; icon: React.ReactNode; label: string }[] = [
+  { type: 'point', icon: <Lightbulb className="w-4 h-4 text-warning" />, label: 'Point' },
+  { type: 'spot', icon: <Flashlight className="w-4 h-4 text-warning" />, label: 'Spot' },
+];
+
 export const ObjectsDrawer: React.FC<ObjectsDrawerProps> = ({
   objects,
   selectedId,
   onSelect,
   onAdd,
+  onAddLight,
   onDelete,
   onToggleVisibility,
   onToggleLock,
@@ -82,6 +89,27 @@ export const ObjectsDrawer: React.FC<ObjectsDrawerProps> = ({
         </div>
       </div>
       
+      {/* Add lights */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
+          Add Light
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {lightButtons.map((light) => (
+            <Button
+              key={light.type}
+              variant="outline"
+              size="sm"
+              className="flex flex-col items-center gap-1 h-auto py-2 bg-secondary/30 border-border/50 hover:bg-secondary hover:border-primary/50"
+              onClick={() => onAddLight(light.type)}
+            >
+              {light.icon}
+              <span className="text-[10px]">{light.label}</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+      
       {/* Object list */}
       <div>
         <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
@@ -1,24 +1,36 @@
 import React from 'react';
-import { SceneObject, Vector3 } from '@/types/engine';
+import { SceneObject, Vector3, Material } from '@/types/engine';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { PRIMITIVE_PARAM_FIELDS, resolvePrimitiveParams } from '@/lib/primitives';
 
 interface PropertiesDrawerProps {
   object: SceneObject | null;
   onUpdate: (id: string, updates: Partial<SceneObject>) => void;
+  // A field edit finished (slider released, input left or confirmed)
+  onEditEnd?: () => void;
 }
 
+// Enter confirms a text or number field like leaving it does
+const commitOnEnter = (onCommit?: () => void) => (e: React.KeyboardEvent) => {
+  if (e.key === 'Enter') onCommit?.();
+};
+
 interface Vector3InputProps {
   label: string;
   value: Vector3;
   onChange: (value: Vector3) => void;
+  onCommit?: () => void;
   step?: number;
 }
 
-const Vector3Input: React.FC<Vector3InputProps> = ({
+export const Vector3Input: React.FC<Vector3InputProps> = ({
   label,
   value,
   onChange,
+  onCommit,
   step = 1,
 }) => {
   const handleChange = (axis: 'x' | 'y' | 'z', newValue: string) => {
@@ -42,6 +54,8 @@ const Vector3Input: React.FC<Vector3InputProps> = ({
             value={value.x.toFixed(1)}
             onChange={(e) => handleChange('x', e.target.value)}
             step={step}
+            onBlur={onCommit}
+            onKeyDown={commitOnEnter(onCommit)}
             className="h-7 text-xs bg-secondary/50 border-border/50"
           />
         </div>
@@ -55,6 +69,8 @@ const Vector3Input: React.FC<Vector3InputProps> = ({
             value={value.y.toFixed(1)}
             onChange={(e) => handleChange('y', e.target.value)}
             step={step}
+            onBlur={onCommit}
+            onKeyDown={commitOnEnter(onCommit)}
             className="h-7 text-xs bg-secondary/50 border-border/50"
           />
         </div>
@@ -68,6 +84,8 @@ const Vector3Input: React.FC<Vector3InputProps> = ({
             value={value.z.toFixed(1)}
             onChange={(e) => handleChange('z', e.target.value)}
             step={step}
+            onBlur={onCommit}
+            onKeyDown={commitOnEnter(onCommit)}
             className="h-7 text-xs bg-secondary/50 border-border/50"
           />
         </div>
@@ -76,9 +94,49 @@ const Vector3Input: React.FC<Vector3InputProps> = ({
   );
 };
 
+interface PropertySliderProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  // The drag or key press that changed the value ended
+  onCommit?: () => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export const PropertySlider: React.FC<PropertySliderProps> = ({
+  label,
+  value,
+  onChange,
+  onCommit,
+  min = 0,
+  max = 1,
+  step = 0.01,
+}) => (
+  <div>
+    <div className="flex items-center justify-between mb-1.5">
+      <Label className="text-[10px] text-muted-foreground">{label}</Label>
+      <span className="text-[10px] font-mono text-foreground">
+        {step < 1 ? value.toFixed(2) : Math.round(value)}
+      </span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      onValueChange={([next]) => onChange(next)}
+      onValueCommit={() => onCommit?.()}
+      className="w-full"
+    />
+  </div>
+);
+
 export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
   object,
   onUpdate,
+  onEditEnd,
 }) => {
   if (!object) {
     return (
@@ -90,6 +148,17 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
     );
   }
   
+  const updateMaterial = (changes: Partial<Material>) =>
+    onUpdate(object.id, { material: { ...object.material, ...changes } });
+
+  // Tessellation controls for the object's primitive type (imported meshes have none)
+  const primitiveType = object.type !== 'mesh' ? object.type : null;
+  const params: Record<string, number> = primitiveType
+    ? { ...resolvePrimitiveParams(primitiveType, object.params) }
+    : {};
+  const updateParam = (key: string, value: number) =>
+    onUpdate(object.id, { params: { ...params, [key]: value } });
+  
   return (
     <div className="p-4 space-y-6">
       {/* Object Info */}
@@ -103,6 +172,8 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
             <Input
               value={object.name}
               onChange={(e) => onUpdate(object.id, { name: e.target.value })}
+              onBlur={onEditEnd}
+              onKeyDown={commitOnEnter(onEditEnd)}
               className="h-7 text-xs bg-secondary/50 border-border/50"
             />
           </div>
@@ -123,6 +194,29 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
         </div>
       </div>
       
+      {/* Geometry */}
+      {primitiveType && (
+        <div>
+          <div className="text-xs text-muted-foreground mb-2 uppercase tracking-wider">
+            Geometry
+          </div>
+          <div className="space-y-3">
+            {PRIMITIVE_PARAM_FIELDS[primitiveType].map((field) => (
+              <PropertySlider
+                key={field.key}
+                label={field.label}
+                value={params[field.key]}
+                onChange={(value) => updateParam(field.key, value)}
+                onCommit={onEditEnd}
+                min={field.min}
+                max={field.max}
+                step={field.step}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Transform */}
       <div className="space-y-4">
         <div className="text-xs text-muted-foreground uppercase tracking-wider">
@@ -133,6 +227,7 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
           label="Position"
           value={object.position}
           onChange={(pos) => onUpdate(object.id, { position: pos })}
+          onCommit={onEditEnd}
           step={1}
         />
         
@@ -150,6 +245,7 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
               z: rot.z * (Math.PI / 180),
             }
           })}
+          onCommit={onEditEnd}
           step={5}
         />
         
@@ -157,6 +253,7 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
           label="Scale"
           value={object.scale}
           onChange={(scale) => onUpdate(object.id, { scale })}
+          onCommit={onEditEnd}
           step={0.1}
         />
       </div>
@@ -174,12 +271,47 @@ export const PropertiesDrawer: React.FC<PropertiesDrawerProps> = ({
           <Input
             type="color"
             value={object.material.color}
-            onChange={(e) => onUpdate(object.id, { 
-              material: { ...object.material, color: e.target.value }
-            })}
+            onChange={(e) => updateMaterial({ color: e.target.value })}
+            onBlur={onEditEnd}
             className="flex-1 h-8 p-0 border-0 bg-transparent"
           />
         </div>
+        <div className="space-y-3 mt-3">
+          <PropertySlider
+            label="Ambient"
+            value={object.material.ambient}
+            onChange={(ambient) => updateMaterial({ ambient })}
+            onCommit={onEditEnd}
+          />
+          <PropertySlider
+            label="Diffuse"
+            value={object.material.diffuse}
+            onChange={(diffuse) => updateMaterial({ diffuse })}
+            onCommit={onEditEnd}
+          />
+          <PropertySlider
+            label="Specular"
+            value={object.material.specular}
+            onChange={(specular) => updateMaterial({ specular })}
+            onCommit={onEditEnd}
+          />
+          <PropertySlider
+            label="Shininess"
+            value={object.material.shininess}
+            onChange={(shininess) => updateMaterial({ shininess })}
+            onCommit={onEditEnd}
+            min={1}
+            max={256}
+            step={1}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <Label className="text-[10px] text-muted-foreground">Smooth shading</Label>
+          <Switch
+            checked={object.shading === 'smooth'}
+            onCheckedChange={(smooth) => onUpdate(object.id, { shading: smooth ? 'smooth' : 'flat' })}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,276 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { FogMode, FogSettings, LodQuality, ToonSettings } from '@/types/engine';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { PropertySlider } from '@/components/drawers/PropertiesDrawer';
+import { hexToRgb, rgbToCss } from '@/lib/renderer';
+import { MIN_TOON_BANDS, MAX_TOON_BANDS, MAX_RAMP_STOPS, sampleRamp } from '@/lib/toon';
+import { cn } from '@/lib/utils';
+
+const fogModes: { mode: FogMode; label: string }[] = [
+  { mode: 'linear', label: 'Linear' },
+  { mode: 'exponential', label: 'Exponential' },
+];
+
+// Slider stops, coarsest first
+const lodQualities: { quality: LodQuality; label: string }[] = [
+  { quality: 'draft', label: 'Draft' },
+  { quality: 'normal', label: 'Normal' },
+  { quality: 'high', label: 'High' },
+];
+
+// Viewing-depth range offered by the fog sliders (the default camera sits 500 away)
+const MAX_FOG_DISTANCE = 3000;
+
+interface RenderingDrawerProps {
+  toon: ToonSettings;
+  onToonChange: (toon: ToonSettings) => void;
+  fog: FogSettings;
+  onFogChange: (updates: Partial<FogSettings>) => void;
+  // A fog slider or the color picker was released
+  onFogEditEnd?: () => void;
+  lodQuality: LodQuality;
+  onLodQualityChange: (quality: LodQuality) => void;
+}
+
+export const RenderingDrawer: React.FC<RenderingDrawerProps> = ({
+  toon,
+  onToonChange,
+  fog,
+  onFogChange,
+  onFogEditEnd,
+  lodQuality,
+  onLodQualityChange,
+}) => {
+  const lodIndex = lodQualities.findIndex(({ quality }) => quality === lodQuality);
+
+  const update = (changes: Partial<ToonSettings>) => onToonChange({ ...toon, ...changes });
+
+  const setStop = (index: number, color: string) =>
+    update({ ramp: toon.ramp.map((stop, i) => (i === index ? color : stop)) });
+
+  // The flat colors a white material gets, darkest band first
+  const ramp = toon.ramp.map(hexToRgb);
+  const bands = Array.from({ length: toon.bands }, (_, i) =>
+    rgbToCss(sampleRamp(ramp, i / (toon.bands - 1)))
+  );
+
+  return (
+    <div className="p-4 space-y-6">
+      {/* Toon shading */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Toon Shading
+          </span>
+          <Switch
+            checked={toon.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <PropertySlider
+            label="Bands"
+            value={toon.bands}
+            min={MIN_TOON_BANDS}
+            max={MAX_TOON_BANDS}
+            step={1}
+            onChange={(value) => update({ bands: value })}
+          />
+
+          {/* Ramp stops, dark to light */}
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <Label className="text-[10px] text-muted-foreground">Color ramp</Label>
+              <button
+                className="p-0.5 text-muted-foreground hover:text-primary transition-colors disabled:opacity-40"
+                disabled={toon.ramp.length >= MAX_RAMP_STOPS}
+                onClick={() => update({ ramp: [...toon.ramp, toon.ramp[toon.ramp.length - 1]] })}
+                title="Add stop"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex items-center gap-1.5">
+              {toon.ramp.map((stop, index) => (
+                <div key={index} className="relative group">
+                  <Input
+                    type="color"
+                    value={stop}
+                    onChange={(e) => setStop(index, e.target.value)}
+                    className="w-9 h-7 p-0 border-0 bg-transparent"
+                  />
+                  {toon.ramp.length > 2 && (
+                    <button
+                      className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-panel opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                      onClick={() => update({ ramp: toon.ramp.filter((_, i) => i !== index) })}
+                      title="Remove stop"
+                    >
+                      <X className="w-2.5 h-2.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {/* Resulting bands */}
+            <div className="flex h-3 mt-2 rounded overflow-hidden border border-border/50">
+              {bands.map((color, i) => (
+                <div key={i} className="flex-1" style={{ backgroundColor: color }} />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Outlines */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Outlines
+          </span>
+          <Switch
+            checked={toon.outlines}
+            onCheckedChange={(outlines) => update({ outlines })}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-[10px] text-muted-foreground">Ink creases</Label>
+            <Switch
+              checked={toon.creases}
+              onCheckedChange={(creases) => update({ creases })}
+            />
+          </div>
+          <PropertySlider
+            label="Width"
+            value={toon.outlineWidth}
+            min={0.5}
+            max={6}
+            step={0.25}
+            onChange={(outlineWidth) => update({ outlineWidth })}
+          />
+          <div className="flex items-center justify-between">
+            <Label className="text-[10px] text-muted-foreground">Color</Label>
+            <Input
+              type="color"
+              value={toon.outlineColor}
+              onChange={(e) => update({ outlineColor: e.target.value })}
+              className="w-10 h-7 p-0 border-0 bg-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="text-[10px] text-muted-foreground mt-3">
+          Toon shading and outlines apply to the solid render mode.
+        </div>
+      </div>
+
+      {/* Fog (saved with the scene) */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Fog
+          </span>
+          <Switch
+            checked={fog.enabled}
+            onCheckedChange={(enabled) => onFogChange({ enabled })}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-1">
+            {fogModes.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={cn(
+                  "h-7 text-[10px] rounded border border-border/30 bg-secondary/30 hover:border-primary/50 transition-colors",
+                  fog.mode === mode && "bg-primary/20 border-primary/50 text-primary"
+                )}
+                onClick={() => onFogChange({ mode })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <PropertySlider
+            label="Start"
+            value={fog.start}
+            min={0}
+            max={MAX_FOG_DISTANCE}
+            step={10}
+            onChange={(start) => onFogChange({ start, end: Math.max(fog.end, start + 10) })}
+            onCommit={onFogEditEnd}
+          />
+          {fog.mode === 'linear' ? (
+            <PropertySlider
+              label="End"
+              value={fog.end}
+              min={10}
+              max={MAX_FOG_DISTANCE}
+              step={10}
+              onChange={(end) => onFogChange({ end, start: Math.min(fog.start, end - 10) })}
+              onCommit={onFogEditEnd}
+            />
+          ) : (
+            <PropertySlider
+              label="Half distance"
+              value={fog.halfDistance}
+              min={10}
+              max={MAX_FOG_DISTANCE}
+              step={10}
+              onChange={(halfDistance) => onFogChange({ halfDistance })}
+              onCommit={onFogEditEnd}
+            />
+          )}
+          <div className="flex items-center justify-between">
+            <Label className="text-[10px] text-muted-foreground">Color</Label>
+            <Input
+              type="color"
+              value={fog.color}
+              onChange={(e) => onFogChange({ color: e.target.value })}
+              onBlur={onFogEditEnd}
+              className="w-10 h-7 p-0 border-0 bg-transparent"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label className="text-[10px] text-muted-foreground">Thin distant strokes</Label>
+            <Switch
+              checked={fog.thinStrokes}
+              onCheckedChange={(thinStrokes) => onFogChange({ thinStrokes })}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Level of detail */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+          Level of Detail
+        </div>
+        <div className="flex items-center justify-between mb-1.5">
+          <Label className="text-[10px] text-muted-foreground">Quality</Label>
+          <span className="text-[10px] font-mono text-foreground">
+            {lodQualities[lodIndex].label}
+          </span>
+        </div>
+        <Slider
+          value={[lodIndex]}
+          min={0}
+          max={lodQualities.length - 1}
+          step={1}
+          onValueChange={([index]) => onLodQualityChange(lodQualities[index].quality)}
+          className="w-full"
+        />
+        <div className="text-[10px] text-muted-foreground mt-3">
+          Distant spheres, cylinders, cones and tori use fewer segments. Draft is
+          fastest while editing; High keeps curves smooth for export.
+        </div>
+      </div>
+    </div>
+  );
+};
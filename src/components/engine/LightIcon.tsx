@@ -0,0 +1,22 @@
+import React from 'react';
+import { Sparkles, Sun, Lightbulb, Flashlight, LucideIcon } from 'lucide-react';
+import { LightType } from '@/types/engine';
+
+const lightIcons: Record<LightType, LucideIcon> = {
+  ambient: Sparkles,
+  directional: Sun,
+  point: Lightbulb,
+  spot: Flashlight,
+};
+
+interface LightIconProps {
+  type: LightType;
+  className?: string;
+  color?: string;
+}
+
+// Icon for a light type, tinted with the light's color when given
+export const LightIcon: React.FC<LightIconProps> = ({ type, className, color }) => {
+  const Icon = lightIcons[type];
+  return <Icon className={className} style={color ? { color } : undefined} />;
+};
@@ -1,122 +1,125 @@
-import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
-import { ProjectedFace, Vector3, Vector2, ToolType, TransformDelta } from '@/types/engine';
-import { rotateEuler, project, add } from '@/lib/math';
+import React, { useRef, useState, useCallback, useEffect, useLayoutEffect, useMemo, useId } from 'react';
+import {
+  ProjectedFace,
+  LightGizmo,
+  ShadowShape,
+  EdgeSegment,
+  NormalVector,
+  RenderMode,
+  Vector3,
+  Vector2,
+  ToolType,
+  TransformDelta,
+  CameraPreset,
+} from '@/types/engine';
+import { generateGridFloor, normalToRgb } from '@/lib/renderer';
+import { unrotateEuler } from '@/lib/math';
+import { SHADOW_BLUR } from '@/lib/shadows';
+import { EDGE_STROKE_WIDTHS, HIDDEN_EDGE_WIDTH, HIDDEN_EDGE_DASH } from '@/lib/hiddenLine';
+import { CREASE_OUTLINE_SCALE } from '@/lib/toon';
+import {
+  CANVAS_FACE_THRESHOLD,
+  SVG_FACE_THRESHOLD,
+  drawCanvasScene,
+  pickObjectAt,
+  readCanvasTheme,
+} from '@/lib/canvasRenderer';
 import { CameraGizmo } from '@/components/engine/CameraGizmo';
 
 interface ViewportProps {
   projectedFaces: ProjectedFace[];
   selectedObjectId?: string | null;
+  lightGizmos?: LightGizmo[];
+  selectedLightId?: string | null;
+  // Drop shadows drawn on the floor under the faces (solid mode)
+  shadows?: ShadowShape[];
+  shadowOpacity?: number;
+  // Visible and occluded edges for hidden-line mode
+  edgeSegments?: EdgeSegment[];
+  showHiddenEdges?: boolean;
+  // Normals mode: per-face normal vectors, and faces colored by world normal
+  normalVectors?: NormalVector[];
+  normalColors?: boolean;
+  // Toon ink lines drawn over solid faces
+  outlines?: EdgeSegment[];
+  outlineWidth?: number;
+  outlineColor?: string;
   activeTool?: ToolType;
   cameraRotation: Vector3;
   cameraPosition: Vector3;
   cameraFov: number;
+  orthographic?: boolean;
   gridVisible?: boolean;
-  renderMode?: 'solid' | 'wireframe' | 'normals' | 'xray';
+  renderMode?: RenderMode;
   onViewportResize?: (size: { width: number; height: number }) => void;
   onObjectClick?: (objectId: string | null) => void;
   onCameraRotate?: (rotation: Vector3) => void;
+  onCameraPreset?: (preset: Exclude<CameraPreset, 'perspective'>) => void;
   onCameraPan?: (offset: Vector3) => void;
   onCameraZoom?: (delta: number) => void;
   onObjectTransform?: (objectId: string, transform: TransformDelta) => void;
+  onLightClick?: (lightId: string) => void;
+  onLightMove?: (lightId: string, delta: Vector3) => void;
+  onInteractionEnd?: () => void;
 }
 
-// Generate 3D grid floor lines
-const generateGridFloor = (
-  size: number,
-  divisions: number,
-  cameraRotation: Vector3,
-  cameraPosition: Vector3,
-  width: number,
-  height: number,
-  fov: number,
-  cameraZ: number
-): { lines: { x1: number; y1: number; x2: number; y2: number; opacity: number }[] } => {
-  const lines: { x1: number; y1: number; x2: number; y2: number; opacity: number }[] = [];
-  const step = size / divisions;
-  const half = size / 2;
-  const gridY = -80; // Grid floor Y position
-
-  for (let i = 0; i <= divisions; i++) {
-    const pos = -half + i * step;
-    const isMajor = i % 4 === 0;
-    const opacity = isMajor ? 0.4 : 0.15;
-
-    // Lines along X axis
-    const xStartW: Vector3 = { x: -half, y: gridY, z: pos };
-    const xEndW: Vector3 = { x: half, y: gridY, z: pos };
-
-    // Apply camera pan (x/y)
-    const xStart: Vector3 = add(xStartW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
-    const xEnd: Vector3 = add(xEndW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
-
-    const xStartRot = rotateEuler(xStart, cameraRotation);
-    const xEndRot = rotateEuler(xEnd, cameraRotation);
-
-    const xStartProj = project(xStartRot, width, height, fov, cameraZ);
-    const xEndProj = project(xEndRot, width, height, fov, cameraZ);
-    
-    // Only add if both points are in front of camera
-    if (xStartRot.z + cameraZ > 50 && xEndRot.z + cameraZ > 50) {
-      lines.push({
-        x1: xStartProj.x,
-        y1: xStartProj.y,
-        x2: xEndProj.x,
-        y2: xEndProj.y,
-        opacity,
-      });
-    }
-
-    // Lines along Z axis
-    const zStartW: Vector3 = { x: pos, y: gridY, z: -half };
-    const zEndW: Vector3 = { x: pos, y: gridY, z: half };
-
-    const zStart: Vector3 = add(zStartW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
-    const zEnd: Vector3 = add(zEndW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
-
-    const zStartRot = rotateEuler(zStart, cameraRotation);
-    const zEndRot = rotateEuler(zEnd, cameraRotation);
-
-    const zStartProj = project(zStartRot, width, height, fov, cameraZ);
-    const zEndProj = project(zEndRot, width, height, fov, cameraZ);
-    
-    if (zStartRot.z + cameraZ > 50 && zEndRot.z + cameraZ > 50) {
-      lines.push({
-        x1: zStartProj.x,
-        y1: zStartProj.y,
-        x2: zEndProj.x,
-        y2: zEndProj.y,
-        opacity,
-      });
-    }
-  }
-
-  return { lines };
-};
-
 export const Viewport: React.FC<ViewportProps> = ({
   projectedFaces,
   selectedObjectId,
+  lightGizmos = [],
+  selectedLightId,
+  shadows = [],
+  shadowOpacity = 0.35,
+  edgeSegments = [],
+  showHiddenEdges = true,
+  normalVectors = [],
+  normalColors = false,
+  outlines = [],
+  outlineWidth = 2,
+  outlineColor = '#111111',
   activeTool = 'select',
   cameraRotation,
   cameraPosition,
   cameraFov,
+  orthographic = false,
   gridVisible = true,
   renderMode = 'solid',
   onViewportResize,
   onObjectClick,
   onCameraRotate,
+  onCameraPreset,
   onCameraPan,
   onCameraZoom,
   onObjectTransform,
+  onLightClick,
+  onLightMove,
+  onInteractionEnd,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  
+  // Large scenes draw their faces to a canvas; the SVG keeps gizmos and input
+  const [canvasBackend, setCanvasBackend] = useState(false);
+  const wantsCanvas = canvasBackend
+    ? projectedFaces.length >= SVG_FACE_THRESHOLD
+    : projectedFaces.length > CANVAS_FACE_THRESHOLD;
+  if (wantsCanvas !== canvasBackend) setCanvasBackend(wantsCanvas);
+  
+  // SVG ids are document-global; keep each viewport's defs apart
+  const defsId = useId().replace(/:/g, '');
   
   const [viewportSize, setViewportSize] = useState({ width: 1920, height: 1080 });
   const [isDragging, setIsDragging] = useState(false);
   const [isPanning, setIsPanning] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
+  // Light being dragged with the move tool
+  const [draggedLightId, setDraggedLightId] = useState<string | null>(null);
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
+  const wheelEndTimerRef = useRef<number>();
+  
+  // Cancel a pending wheel interaction end on unmount
+  useEffect(() => () => window.clearTimeout(wheelEndTimerRef.current), []);
   
   // Resize observer - make viewport fill container
   useEffect(() => {
@@ -155,21 +158,23 @@ export const Viewport: React.FC<ViewportProps> = ({
       viewportSize.width,
       viewportSize.height,
       cameraFov,
-      cameraPosition.z
+      cameraPosition.z,
+      orthographic
     );
-  }, [gridVisible, cameraRotation, cameraPosition, viewportSize, cameraFov]);
+  }, [gridVisible, cameraRotation, cameraPosition, viewportSize, cameraFov, orthographic]);
   
   // Get cursor for active tool
   const getCursor = useCallback(() => {
     if (isDragging) return 'grabbing';
     if (isPanning) return 'move';
+    if (draggedLightId) return 'move';
     if (isTransforming) {
       if (activeTool === 'move') return 'move';
       if (activeTool === 'rotate') return 'crosshair';
       if (activeTool === 'scale') return 'nwse-resize';
     }
     return 'grab';
-  }, [isDragging, isPanning, isTransforming, activeTool]);
+  }, [isDragging, isPanning, isTransforming, draggedLightId, activeTool]);
   
   // Mouse handlers
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -177,7 +182,9 @@ export const Viewport: React.FC<ViewportProps> = ({
     setLastMousePos({ x: e.clientX, y: e.clientY });
     
     if (e.button === 0) { // Left click - orbit
-      if (activeTool !== 'select' && selectedObjectId) {
+      if (activeTool === 'move' && selectedLightId) {
+        setDraggedLightId(selectedLightId);
+      } else if (activeTool !== 'select' && selectedObjectId) {
         setIsTransforming(true);
       } else {
         setIsDragging(true);
@@ -185,13 +192,26 @@ export const Viewport: React.FC<ViewportProps> = ({
     } else if (e.button === 1 || e.button === 2) { // Middle or Right click - pan
       setIsPanning(true);
     }
-  }, [activeTool, selectedObjectId]);
+  }, [activeTool, selectedObjectId, selectedLightId]);
+  
+  // Pressing a light gizmo selects it; with the move tool it drags straight away
+  const handleGizmoMouseDown = useCallback((e: React.MouseEvent, lightId: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setLastMousePos({ x: e.clientX, y: e.clientY });
+    onLightClick?.(lightId);
+    if (activeTool === 'move') setDraggedLightId(lightId);
+  }, [activeTool, onLightClick]);
   
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     const dx = e.clientX - lastMousePos.x;
     const dy = e.clientY - lastMousePos.y;
     
-    if (isTransforming && selectedObjectId && onObjectTransform) {
+    if (draggedLightId && onLightMove) {
+      const sensitivity = 0.5;
+      onLightMove(draggedLightId, { x: dx * sensitivity, y: -dy * sensitivity, z: 0 });
+    } else if (isTransforming && selectedObjectId && onObjectTransform) {
       if (activeTool === 'move') {
         const sensitivity = 0.5;
         onObjectTransform(selectedObjectId, {
@@ -221,16 +241,20 @@ export const Viewport: React.FC<ViewportProps> = ({
     
     setLastMousePos({ x: e.clientX, y: e.clientY });
   }, [
-    lastMousePos, isTransforming, isDragging, isPanning,
+    lastMousePos, isTransforming, isDragging, isPanning, draggedLightId,
     selectedObjectId, activeTool, cameraRotation,
-    onObjectTransform, onCameraRotate, onCameraPan,
+    onObjectTransform, onLightMove, onCameraRotate, onCameraPan,
   ]);
   
   const handleMouseUp = useCallback(() => {
+    if (isDragging || isPanning || isTransforming || draggedLightId) {
+      onInteractionEnd?.();
+    }
     setIsDragging(false);
     setIsPanning(false);
     setIsTransforming(false);
-  }, []);
+    setDraggedLightId(null);
+  }, [isDragging, isPanning, isTransforming, draggedLightId, onInteractionEnd]);
   
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -238,8 +262,12 @@ export const Viewport: React.FC<ViewportProps> = ({
       // Smooth zoom with scroll wheel
       const delta = e.deltaY * 0.5;
       onCameraZoom(delta);
+      
+      // Treat a burst of wheel ticks as one interaction
+      window.clearTimeout(wheelEndTimerRef.current);
+      wheelEndTimerRef.current = window.setTimeout(() => onInteractionEnd?.(), 300);
     }
-  }, [onCameraZoom]);
+  }, [onCameraZoom, onInteractionEnd]);
   
   const handleFaceClick = useCallback((e: React.MouseEvent, objectId: string) => {
     e.stopPropagation();
@@ -248,11 +276,19 @@ export const Viewport: React.FC<ViewportProps> = ({
     }
   }, [activeTool, selectedObjectId, onObjectClick]);
   
-  const handleBackgroundClick = useCallback(() => {
-    if (activeTool === 'select' && onObjectClick) {
-      onObjectClick(null);
+  const handleBackgroundClick = useCallback((e: React.MouseEvent) => {
+    if (activeTool !== 'select' || !onObjectClick) return;
+    // Canvas faces aren't elements, so find the one under the cursor
+    if (canvasBackend && svgRef.current) {
+      const rect = svgRef.current.getBoundingClientRect();
+      const objectId = pickObjectAt(projectedFaces, renderMode, e.clientX - rect.left, e.clientY - rect.top);
+      if (objectId) {
+        onObjectClick(objectId === selectedObjectId ? null : objectId);
+        return;
+      }
     }
-  }, [activeTool, onObjectClick]);
+    onObjectClick(null);
+  }, [activeTool, canvasBackend, projectedFaces, renderMode, selectedObjectId, onObjectClick]);
   
   // Context menu prevention
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
@@ -275,6 +311,49 @@ export const Viewport: React.FC<ViewportProps> = ({
     return path;
   }, []);
   
+  // One path per shadow; pieces are wound alike so they union under nonzero fill
+  const shadowPaths = useMemo(() => shadows.map(shape => ({
+    id: shape.objectId,
+    d: shape.polygons
+      .map(poly => `M ${poly.map(v => `${v.x} ${v.y}`).join(' L ')} Z`)
+      .join(' '),
+  })), [shadows]);
+  
+  // Canvas backend: redraw before paint so it never lags the SVG overlay
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvasBackend || !ctx) return;
+    const { width, height } = viewportSize;
+    const ratio = window.devicePixelRatio || 1;
+    // Resizing clears the canvas, so only do it when the size changes
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawCanvasScene(ctx, width, height, {
+      faces: projectedFaces,
+      renderMode,
+      cameraRotation,
+      gridLines: gridFloor.lines,
+      shadows,
+      shadowOpacity,
+      edgeSegments,
+      showHiddenEdges,
+      normalVectors,
+      normalColors,
+      outlines,
+      outlineWidth,
+      outlineColor,
+      selectedObjectId,
+    }, readCanvasTheme(canvas));
+  }, [
+    canvasBackend, viewportSize, projectedFaces, renderMode, cameraRotation, gridFloor,
+    shadows, shadowOpacity, edgeSegments, showHiddenEdges, normalVectors, normalColors,
+    outlines, outlineWidth, outlineColor, selectedObjectId,
+  ]);
+  
   // Count unique objects for stats
   const objectCount = useMemo(() => {
     const ids = new Set<string>();
@@ -290,11 +369,15 @@ export const Viewport: React.FC<ViewportProps> = ({
       className="absolute inset-0 overflow-hidden bg-background"
       onContextMenu={handleContextMenu}
     >
+      {canvasBackend && (
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      )}
+      
       <svg
         ref={svgRef}
         viewBox={`0 0 ${viewportSize.width} ${viewportSize.height}`}
         preserveAspectRatio="xMidYMid slice"
-        className="w-full h-full"
+        className="relative w-full h-full"
         style={{ cursor: getCursor() }}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
@@ -306,14 +389,14 @@ export const Viewport: React.FC<ViewportProps> = ({
         {/* SVG Definitions */}
         <defs>
           {/* Selection gradient */}
-          <linearGradient id="selectionGradient" x1="0%" y1="0%" x2="100%" y2="100%">
+          <linearGradient id={`selectionGradient-${defsId}`} x1="0%" y1="0%" x2="100%" y2="100%">
             <stop offset="0%" stopColor="hsl(217, 91%, 60%)" />
             <stop offset="50%" stopColor="hsl(280, 100%, 60%)" />
             <stop offset="100%" stopColor="hsl(330, 81%, 60%)" />
           </linearGradient>
           
           {/* Selection glow filter */}
-          <filter id="selectionGlow" x="-50%" y="-50%" width="200%" height="200%">
+          <filter id={`selectionGlow-${defsId}`} x="-50%" y="-50%" width="200%" height="200%">
             <feGaussianBlur in="SourceGraphic" stdDeviation="5" result="blur" />
             <feFlood floodColor="hsl(280, 100%, 60%)" floodOpacity="0.4" result="color" />
             <feComposite in="color" in2="blur" operator="in" result="coloredBlur" />
@@ -323,8 +406,13 @@ export const Viewport: React.FC<ViewportProps> = ({
             </feMerge>
           </filter>
           
+          {/* Soft shadow edges */}
+          <filter id={`shadowBlur-${defsId}`} x="-20%" y="-20%" width="140%" height="140%">
+            <feGaussianBlur in="SourceGraphic" stdDeviation={SHADOW_BLUR} />
+          </filter>
+          
           {/* Grid glow */}
-          <filter id="gridGlow" x="-20%" y="-20%" width="140%" height="140%">
+          <filter id={`gridGlow-${defsId}`} x="-20%" y="-20%" width="140%" height="140%">
             <feGaussianBlur in="SourceGraphic" stdDeviation="1" result="blur" />
             <feMerge>
               <feMergeNode in="blur" />
@@ -333,8 +421,8 @@ export const Viewport: React.FC<ViewportProps> = ({
           </filter>
         </defs>
         
-        {/* 3D Grid Floor */}
-        {gridVisible && (
+        {/* 3D Grid Floor (on the canvas for large scenes, like everything up to the gizmos) */}
+        {gridVisible && !canvasBackend && (
           <g className="grid-floor">
             {gridFloor.lines.map((line, i) => (
               <line
@@ -346,30 +434,57 @@ export const Viewport: React.FC<ViewportProps> = ({
                 stroke="hsl(var(--primary))"
                 strokeWidth={1}
                 opacity={line.opacity}
-                filter="url(#gridGlow)"
+                filter={`url(#gridGlow-${defsId})`}
               />
             ))}
           </g>
         )}
         
+        {/* Drop shadows; group opacity keeps overlapping shadows from stacking */}
+        {renderMode === 'solid' && !canvasBackend && shadowPaths.length > 0 && (
+          <g opacity={shadowOpacity} filter={`url(#shadowBlur-${defsId})`} pointerEvents="none">
+            {shadowPaths.map(path => (
+              <path key={path.id} d={path.d} fill="#000" />
+            ))}
+          </g>
+        )}
+        
         {/* Render faces in depth-sorted order (painter's algorithm) */}
-        {projectedFaces.map((face, index) => {
+        {!canvasBackend && projectedFaces.map((face, index) => {
           const pathData = generatePath(face);
           const objectId = face.objectId || 'unknown';
           
-          // Calculate face center for normal visualization
-          const centerX = face.projectedVerts.reduce((sum, v) => sum + v.x, 0) / face.projectedVerts.length;
-          const centerY = face.projectedVerts.reduce((sum, v) => sum + v.y, 0) / face.projectedVerts.length;
+          // Smooth-shaded faces fill (and stroke, hiding seams) with their own gradient
+          const gradientId = face.gradient ? `shade-${defsId}-${index}` : null;
+          const fill = gradientId ? `url(#${gradientId})` : face.color;
+          // Fog depth cueing narrows distant strokes
+          const strokeScale = face.strokeScale ?? 1;
           
           return (
             <g key={index}>
+              {renderMode === 'solid' && face.gradient && (
+                <defs>
+                  <linearGradient
+                    id={gradientId}
+                    gradientUnits="userSpaceOnUse"
+                    x1={face.gradient.x1}
+                    y1={face.gradient.y1}
+                    x2={face.gradient.x2}
+                    y2={face.gradient.y2}
+                  >
+                    <stop offset="0" stopColor={face.gradient.from} />
+                    <stop offset="1" stopColor={face.gradient.to} />
+                  </linearGradient>
+                </defs>
+              )}
+              
               {/* Main face */}
               {renderMode === 'solid' && (
                 <path
                   d={pathData}
-                  fill={face.color}
-                  stroke="rgba(0,0,0,0.1)"
-                  strokeWidth={0.5}
+                  fill={fill}
+                  stroke={gradientId ? fill : 'rgba(0,0,0,0.1)'}
+                  strokeWidth={0.5 * strokeScale}
                   onClick={(e) => handleFaceClick(e, objectId)}
                   style={{ 
                     cursor: activeTool === 'select' ? 'pointer' : getCursor(),
@@ -377,46 +492,67 @@ export const Viewport: React.FC<ViewportProps> = ({
                 />
               )}
               
+              {/* Hidden-line mode: faces stay clickable, the edge layer draws on top */}
+              {renderMode === 'hiddenLine' && (
+                <path
+                  d={pathData}
+                  fill="transparent"
+                  onClick={(e) => handleFaceClick(e, objectId)}
+                />
+              )}
+              
               {/* Wireframe mode */}
               {renderMode === 'wireframe' && (
                 <path
                   d={pathData}
                   fill="none"
                   stroke="hsl(var(--primary))"
-                  strokeWidth={1}
+                  strokeWidth={strokeScale}
                   opacity={0.8}
                   onClick={(e) => handleFaceClick(e, objectId)}
                 />
               )}
               
-              {/* Normals mode - show wireframe + normal indicators */}
+              {/* X-Ray: translucent faces, back ones included. Screen blending
+                  commutes, so the result doesn't depend on the draw order */}
+              {renderMode === 'xray' && (
+                <path
+                  d={pathData}
+                  fill={face.color}
+                  fillOpacity={face.backFacing ? 0.15 : 0.25}
+                  stroke={face.color}
+                  strokeOpacity={0.5}
+                  strokeWidth={0.5 * strokeScale}
+                  style={{ mixBlendMode: 'screen' }}
+                  onClick={(e) => handleFaceClick(e, objectId)}
+                />
+              )}
+              
+              {/* Normals mode: faces tinted by facing (red = away from the camera,
+                  usually flipped winding) or filled with the world normal as RGB */}
               {renderMode === 'normals' && (
-                <>
-                  <path
-                    d={pathData}
-                    fill="rgba(0, 255, 255, 0.1)"
-                    stroke="hsl(var(--primary))"
-                    strokeWidth={0.5}
-                    opacity={0.6}
-                  />
-                  {/* Normal indicator line (pointing toward camera = green) */}
-                  <circle
-                    cx={centerX}
-                    cy={centerY}
-                    r={2}
-                    fill="hsl(120, 100%, 50%)"
-                  />
-                </>
+                <path
+                  d={pathData}
+                  fill={
+                    normalColors && face.normal
+                      ? normalToRgb(unrotateEuler(face.normal, cameraRotation))
+                      : face.backFacing ? 'rgba(255, 60, 60, 0.25)' : 'rgba(0, 255, 255, 0.1)'
+                  }
+                  stroke={face.backFacing ? 'hsl(0, 90%, 60%)' : 'hsl(var(--primary))'}
+                  strokeWidth={0.5 * strokeScale}
+                  strokeOpacity={0.6}
+                  onClick={(e) => handleFaceClick(e, objectId)}
+                />
               )}
               
               {/* Selection highlight */}
-              {face.isSelected && (
+              {face.isSelected && renderMode !== 'hiddenLine' && (
                 <path
                   d={pathData}
                   fill="none"
-                  stroke="url(#selectionGradient)"
+                  stroke={`url(#selectionGradient-${defsId})`}
                   strokeWidth={3}
-                  filter="url(#selectionGlow)"
+                  filter={`url(#selectionGlow-${defsId})`}
                   opacity={0.8}
                   pointerEvents="none"
                   className="selection-glow"
@@ -426,6 +562,123 @@ export const Viewport: React.FC<ViewportProps> = ({
           );
         })}
         
+        {/* Toon outlines over the faces */}
+        {renderMode === 'solid' && !canvasBackend && outlines.length > 0 && (
+          <g stroke={outlineColor} strokeLinecap="round" pointerEvents="none">
+            {outlines.map((seg, i) => (
+              <line
+                key={`outline-${i}`}
+                x1={seg.x1}
+                y1={seg.y1}
+                x2={seg.x2}
+                y2={seg.y2}
+                strokeWidth={
+                  (seg.kind === 'crease' ? outlineWidth * CREASE_OUTLINE_SCALE : outlineWidth) * (seg.strokeScale ?? 1)
+                }
+              />
+            ))}
+          </g>
+        )}
+        
+        {/* Hidden-line edges: occluded runs dashed underneath, then visible by weight */}
+        {renderMode === 'hiddenLine' && !canvasBackend && (
+          <g strokeLinecap="round" pointerEvents="none">
+            {showHiddenEdges && edgeSegments.map((seg, i) => !seg.visible && (
+              <line
+                key={`hidden-${i}`}
+                x1={seg.x1}
+                y1={seg.y1}
+                x2={seg.x2}
+                y2={seg.y2}
+                stroke={seg.objectId === selectedObjectId ? 'hsl(var(--primary))' : 'hsl(var(--muted-foreground))'}
+                strokeWidth={HIDDEN_EDGE_WIDTH * (seg.strokeScale ?? 1)}
+                strokeDasharray={HIDDEN_EDGE_DASH}
+                opacity={0.6}
+              />
+            ))}
+            {edgeSegments.map((seg, i) => seg.visible && (
+              <line
+                key={`edge-${i}`}
+                x1={seg.x1}
+                y1={seg.y1}
+                x2={seg.x2}
+                y2={seg.y2}
+                stroke={seg.objectId === selectedObjectId ? 'hsl(var(--primary))' : 'hsl(var(--foreground))'}
+                strokeWidth={EDGE_STROKE_WIDTHS[seg.kind] * (seg.strokeScale ?? 1)}
+              />
+            ))}
+          </g>
+        )}
+        
+        {/* Normal vectors, drawn over every face */}
+        {renderMode === 'normals' && !canvasBackend && (
+          <g strokeLinecap="round" pointerEvents="none">
+            {normalVectors.map((n, i) => {
+              const color = n.backFacing ? 'hsl(0, 90%, 60%)' : 'hsl(120, 100%, 50%)';
+              return (
+                <g key={`normal-${i}`}>
+                  <line x1={n.x1} y1={n.y1} x2={n.x2} y2={n.y2} stroke={color} strokeWidth={1} />
+                  <circle cx={n.x2} cy={n.y2} r={1.5} fill={color} />
+                </g>
+              );
+            })}
+          </g>
+        )}
+        
+        {/* Light gizmos (always on top, like the selection outline) */}
+        {lightGizmos.map(gizmo => {
+          const selected = gizmo.lightId === selectedLightId;
+          const stroke = selected ? 'hsl(var(--primary))' : gizmo.color;
+          return (
+            <g
+              key={gizmo.lightId}
+              onMouseDown={(e) => handleGizmoMouseDown(e, gizmo.lightId)}
+              onClick={(e) => e.stopPropagation()}
+              style={{ cursor: activeTool === 'move' ? 'move' : 'pointer' }}
+            >
+              {gizmo.aim && (
+                <line
+                  x1={gizmo.x}
+                  y1={gizmo.y}
+                  x2={gizmo.aim.x}
+                  y2={gizmo.aim.y}
+                  stroke={stroke}
+                  strokeWidth={1.5}
+                  strokeDasharray="3 2"
+                />
+              )}
+              {/* Rays around point lights */}
+              {gizmo.type === 'point' && [0, 1, 2, 3, 4, 5, 6, 7].map(i => {
+                const dx = Math.cos((i * Math.PI) / 4);
+                const dy = Math.sin((i * Math.PI) / 4);
+                return (
+                  <line
+                    key={i}
+                    x1={gizmo.x + dx * 10}
+                    y1={gizmo.y + dy * 10}
+                    x2={gizmo.x + dx * 14}
+                    y2={gizmo.y + dy * 14}
+                    stroke={stroke}
+                    strokeWidth={1}
+                    opacity={0.6}
+                  />
+                );
+              })}
+              <circle
+                cx={gizmo.x}
+                cy={gizmo.y}
+                r={8}
+                fill={gizmo.color}
+                fillOpacity={0.35}
+                stroke={stroke}
+                strokeWidth={selected ? 2.5 : 1.5}
+                filter={selected ? `url(#selectionGlow-${defsId})` : undefined}
+              />
+              <circle cx={gizmo.x} cy={gizmo.y} r={3} fill={gizmo.color} pointerEvents="none" />
+            </g>
+          );
+        })}
+        
         {/* Center axis indicator */}
         <g opacity={0.6}>
           <line
@@ -452,22 +705,13 @@ export const Viewport: React.FC<ViewportProps> = ({
         <div>{viewportSize.width} × {viewportSize.height}</div>
         <div>Objects: {objectCount}</div>
         <div>Faces: {projectedFaces.length}</div>
+        <div>Renderer: {canvasBackend ? 'Canvas' : 'SVG'}</div>
       </div>
 
       <div className="absolute top-3 right-3 z-20">
         <CameraGizmo
           rotation={cameraRotation}
-          onPreset={(preset) => {
-            if (!onCameraRotate) return;
-            const map: Record<typeof preset, Vector3> = {
-              front: { x: 0, y: 0, z: 0 },
-              back: { x: 0, y: Math.PI, z: 0 },
-              left: { x: 0, y: -Math.PI / 2, z: 0 },
-              right: { x: 0, y: Math.PI / 2, z: 0 },
-              top: { x: -Math.PI / 2 + 0.1, y: 0, z: 0 },
-            };
-            onCameraRotate(map[preset]);
-          }}
+          onPreset={(preset) => onCameraPreset?.(preset)}
         />
       </div>
       
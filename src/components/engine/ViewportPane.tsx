@@ -0,0 +1,173 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { Maximize2, Minimize2 } from 'lucide-react';
+import {
+  Scene,
+  EngineConfig,
+  ToolType,
+  TransformDelta,
+  Vector3,
+  RenderStats,
+  ViewportView,
+} from '@/types/engine';
+import { projectFaceNormals } from '@/lib/renderer';
+import { projectLightGizmos } from '@/lib/lights';
+import { toonOutlineSegments } from '@/lib/toon';
+import { viewLabel } from '@/lib/camera';
+import { RenderJob } from '@/lib/frameBuffers';
+import { ViewActions } from '@/hooks/useViewports';
+import { useRenderWorker } from '@/hooks/useRenderWorker';
+import { Viewport } from '@/components/engine/Viewport';
+import { cn } from '@/lib/utils';
+
+interface ViewportPaneProps {
+  scene: Scene;
+  view: ViewportView;
+  actions: ViewActions;
+  config: EngineConfig;
+  animationTime: number;
+  activeTool: ToolType;
+  // Show the pane header and focus ring (more than one pane on screen or maximized)
+  showChrome: boolean;
+  isActive: boolean;
+  isMaximized: boolean;
+  onActivate: () => void;
+  onToggleMaximize: () => void;
+  onObjectClick: (objectId: string | null) => void;
+  onObjectTransform: (objectId: string, transform: TransformDelta) => void;
+  onLightClick: (lightId: string) => void;
+  onLightMove: (lightId: string, delta: Vector3) => void;
+  onInteractionEnd: () => void;
+  onRenderStats?: (stats: RenderStats) => void;
+  onViewportResize?: (size: { width: number; height: number }) => void;
+}
+
+// One viewport in the split layout, rendering the shared scene through its own camera
+export const ViewportPane: React.FC<ViewportPaneProps> = ({
+  scene,
+  view,
+  actions,
+  config,
+  animationTime,
+  activeTool,
+  showChrome,
+  isActive,
+  isMaximized,
+  onActivate,
+  onToggleMaximize,
+  onObjectClick,
+  onObjectTransform,
+  onLightClick,
+  onLightMove,
+  onInteractionEnd,
+  onRenderStats,
+  onViewportResize,
+}) => {
+  // Actual viewport size (reported by <Viewport />)
+  const [size, setSize] = useState({ width: 1200, height: 700 });
+  
+  const handleResize = useCallback((next: { width: number; height: number }) => {
+    setSize(next);
+    onViewportResize?.(next);
+  }, [onViewportResize]);
+
+  // X-Ray and Normals show back faces too
+  const keepBackFaces = view.renderMode === 'xray' || view.renderMode === 'normals';
+  const paneConfig = useMemo(
+    () => (keepBackFaces ? { ...config, cullBackFaces: false } : config),
+    [config, keepBackFaces]
+  );
+
+  // Edges for hidden-line mode, or for the toon style's ink outlines in solid mode
+  const toonOutlines = view.renderMode === 'solid' && !!config.toon?.enabled && config.toon.outlines;
+  const withEdges = view.renderMode === 'hiddenLine' || toonOutlines;
+  const withShadows = !!config.shadows?.enabled && view.renderMode === 'solid';
+
+  // Faces, edges and shadows render in a worker; this thread only draws them
+  const job = useMemo<RenderJob>(() => ({
+    scene: { ...scene, camera: view.camera },
+    config: paneConfig,
+    width: size.width,
+    height: size.height,
+    time: animationTime,
+    edges: withEdges,
+    shadows: withShadows,
+  }), [scene, view.camera, paneConfig, size, animationTime, withEdges, withShadows]);
+  const { faces: projectedFaces, edgeSegments, shadows, stats } = useRenderWorker(job);
+
+  const normalVectors = useMemo(() => {
+    if (view.renderMode !== 'normals') return [];
+    return projectFaceNormals(projectedFaces, view.camera, config, size.width, size.height);
+  }, [projectedFaces, view.camera, view.renderMode, config, size]);
+
+  const lightGizmos = useMemo(
+    () => projectLightGizmos({ ...scene, camera: view.camera }, size.width, size.height),
+    [scene, view.camera, size]
+  );
+
+  const outlines = useMemo(
+    () => (toonOutlines ? toonOutlineSegments(edgeSegments, config.toon) : []),
+    [toonOutlines, edgeSegments, config.toon]
+  );
+
+  useEffect(() => {
+    onRenderStats?.(stats);
+  }, [stats, onRenderStats]);
+
+  return (
+    <div
+      className={cn(
+        "relative min-w-0 min-h-0 bg-background",
+        showChrome && isActive && "ring-1 ring-inset ring-primary/60"
+      )}
+      onMouseDownCapture={onActivate}
+      onWheelCapture={onActivate}
+    >
+      <Viewport
+        projectedFaces={projectedFaces}
+        selectedObjectId={scene.selectedObjectId}
+        lightGizmos={lightGizmos}
+        selectedLightId={scene.selectedLightId}
+        shadows={shadows}
+        shadowOpacity={config.shadows?.opacity}
+        edgeSegments={edgeSegments}
+        showHiddenEdges={config.hiddenEdges ?? true}
+        normalVectors={normalVectors}
+        normalColors={config.normalColors ?? false}
+        outlines={outlines}
+        outlineWidth={config.toon?.outlineWidth}
+        outlineColor={config.toon?.outlineColor}
+        activeTool={activeTool}
+        cameraRotation={view.camera.rotation}
+        cameraPosition={view.camera.position}
+        cameraFov={view.camera.fov}
+        orthographic={view.camera.projection === 'orthographic'}
+        gridVisible={view.gridVisible}
+        renderMode={view.renderMode}
+        onViewportResize={handleResize}
+        onObjectClick={onObjectClick}
+        onCameraRotate={actions.orbit}
+        onCameraPreset={actions.setPreset}
+        onCameraPan={actions.pan}
+        onCameraZoom={actions.zoom}
+        onObjectTransform={onObjectTransform}
+        onLightClick={onLightClick}
+        onLightMove={onLightMove}
+        onInteractionEnd={onInteractionEnd}
+      />
+
+      {/* Pane header */}
+      {showChrome && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 px-2 h-6 rounded bg-panel/80 border border-border/50 text-[11px] text-muted-foreground">
+          <span className={cn(isActive && "text-primary")}>{viewLabel(view.camera, view.preset)}</span>
+          <button
+            className="ml-1 hover:text-foreground"
+            onClick={onToggleMaximize}
+            title={isMaximized ? 'Restore (Ctrl+Space)' : 'Maximize (Ctrl+Space)'}
+          >
+            {isMaximized ? <Minimize2 className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
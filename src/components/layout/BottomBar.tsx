@@ -1,11 +1,13 @@
 import React from 'react';
-import { Grid3X3, Sun, Moon, Box, BarChart2, Sparkles } from 'lucide-react';
-import { CameraPreset, RenderMode } from '@/types/engine';
+import { Grid3X3, Sun, Moon, Bookmark, Box, BarChart2, Sparkles, Layers } from 'lucide-react';
+import { CameraPreset, RenderMode, FaceSortMode, RenderStats, ProjectionMode } from '@/types/engine';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
@@ -13,14 +15,27 @@ import { cn } from '@/lib/utils';
 interface BottomBarProps {
   showGrid: boolean;
   onToggleGrid: () => void;
-  lightingMode: 'day' | 'night';
-  onLightingModeChange: (mode: 'day' | 'night') => void;
+  // Lighting preset id; the button flips between the built-in day and night rigs
+  lightingMode: string;
+  lightingName?: string;
+  onLightingModeChange: (mode: string) => void;
   cameraPreset?: CameraPreset;
   onCameraPresetChange?: (preset: CameraPreset) => void;
+  projection?: ProjectionMode;
+  onProjectionChange?: (projection: ProjectionMode) => void;
   renderMode?: RenderMode;
   onRenderModeChange?: (mode: RenderMode) => void;
+  // Hidden-line mode: draw occluded edges dashed
+  showHiddenEdges?: boolean;
+  onToggleHiddenEdges?: () => void;
+  // Normals mode: fill faces with their normal as RGB
+  normalColors?: boolean;
+  onToggleNormalColors?: () => void;
   showStats?: boolean;
   onToggleStats?: () => void;
+  renderStats?: RenderStats;
+  sortMode?: FaceSortMode;
+  onSortModeChange?: (mode: FaceSortMode) => void;
   showEffects?: boolean;
   onToggleEffects?: () => void;
   objectCount: number;
@@ -39,20 +54,36 @@ const cameraPresets: { id: CameraPreset; label: string }[] = [
 const renderModes: { id: RenderMode; label: string }[] = [
   { id: 'solid', label: 'Solid' },
   { id: 'wireframe', label: 'Wireframe' },
+  { id: 'hiddenLine', label: 'Hidden Line' },
   { id: 'xray', label: 'X-Ray' },
+  { id: 'normals', label: 'Normals' },
 ];
 
+// Share of primitive lookups served from the geometry cache, as a whole percent
+const geometryHitRate = (stats: RenderStats): number =>
+  Math.round((stats.cacheHits / (stats.cacheHits + stats.cacheMisses)) * 100);
+
 export const BottomBar: React.FC<BottomBarProps> = ({
   showGrid,
   onToggleGrid,
   lightingMode,
+  lightingName,
   onLightingModeChange,
   cameraPreset = 'perspective',
   onCameraPresetChange,
+  projection = 'perspective',
+  onProjectionChange,
   renderMode = 'solid',
   onRenderModeChange,
+  showHiddenEdges = true,
+  onToggleHiddenEdges,
+  normalColors = false,
+  onToggleNormalColors,
   showStats = false,
   onToggleStats,
+  renderStats,
+  sortMode = 'painter',
+  onSortModeChange,
   showEffects = false,
   onToggleEffects,
   objectCount,
@@ -85,10 +116,12 @@ export const BottomBar: React.FC<BottomBarProps> = ({
         >
           {lightingMode === 'day' ? (
             <Sun className="w-3.5 h-3.5 text-warning" />
-          ) : (
+          ) : lightingMode === 'night' ? (
             <Moon className="w-3.5 h-3.5 text-primary" />
+          ) : (
+            <Bookmark className="w-3.5 h-3.5 text-primary" />
           )}
-          <span className="capitalize">{lightingMode}</span>
+          <span className="capitalize">{lightingName ?? lightingMode}</span>
         </Button>
       </div>
       
@@ -118,11 +151,25 @@ export const BottomBar: React.FC<BottomBarProps> = ({
           </DropdownMenuContent>
         </DropdownMenu>
         
+        {/* Projection toggle */}
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "h-7 px-2 text-xs",
+            projection === 'orthographic' ? "text-primary bg-primary/10" : "text-muted-foreground"
+          )}
+          onClick={() => onProjectionChange?.(projection === 'orthographic' ? 'perspective' : 'orthographic')}
+          title="Toggle perspective / orthographic projection"
+        >
+          {projection === 'orthographic' ? 'Ortho' : 'Persp'}
+        </Button>
+        
         {/* Render mode */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" size="sm" className="h-7 px-2 text-xs capitalize">
-              {renderMode}
+              {renderModes.find(mode => mode.id === renderMode)?.label ?? renderMode}
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="start" className="bg-panel border-border">
@@ -135,9 +182,46 @@ export const BottomBar: React.FC<BottomBarProps> = ({
                 {mode.label}
               </DropdownMenuItem>
             ))}
+            {renderMode === 'hiddenLine' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={showHiddenEdges}
+                  onCheckedChange={() => onToggleHiddenEdges?.()}
+                >
+                  Dashed hidden edges
+                </DropdownMenuCheckboxItem>
+              </>
+            )}
+            {renderMode === 'normals' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={normalColors}
+                  onCheckedChange={() => onToggleNormalColors?.()}
+                >
+                  Color by normal (RGB)
+                </DropdownMenuCheckboxItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
         
+        {/* Visibility sort toggle */}
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "h-7 px-2 gap-1.5 text-xs",
+            sortMode === 'bsp' ? "text-primary bg-primary/10" : "text-muted-foreground"
+          )}
+          onClick={() => onSortModeChange?.(sortMode === 'bsp' ? 'painter' : 'bsp')}
+          title={sortMode === 'bsp' ? 'BSP tree visibility' : 'Depth-sorted visibility'}
+        >
+          <Layers className="w-3.5 h-3.5" />
+          <span>{sortMode === 'bsp' ? 'BSP' : 'Painter'}</span>
+        </Button>
+        
         {/* Effects toggle */}
         <Button
           variant="ghost"
@@ -165,6 +249,18 @@ export const BottomBar: React.FC<BottomBarProps> = ({
           </div>
         )}
         
+        {/* Render stats */}
+        {showStats && renderStats && (
+          <div className="tabular-nums">
+            Faces: {renderStats.faces}
+            {sortMode === 'bsp' && <> · Splits: {renderStats.splits}</>}
+            {' · '}Sort: {renderStats.sortMs.toFixed(1)} ms
+            {renderStats.cacheHits + renderStats.cacheMisses > 0 && (
+              <> · Geometry cache: {geometryHitRate(renderStats)}%</>
+            )}
+          </div>
+        )}
+        
         {/* Object count */}
         <div className="tabular-nums">
           Objects: {objectCount}
@@ -1,19 +1,59 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { EngineType, ToolType, CameraPreset, RenderMode } from '@/types/engine';
+import {
+  EngineType,
+  ToolType,
+  CameraPreset,
+  RenderMode,
+  FaceSortMode,
+  ShadowSettings,
+  ToonSettings,
+  LodQuality,
+  RenderStats,
+  ProjectionMode,
+  Vector3,
+} from '@/types/engine';
 import { useScene } from '@/hooks/useScene';
-import { renderScene, getDefaultConfig } from '@/lib/renderer';
+import { useViewports, MAIN_VIEWPORT_ID } from '@/hooks/useViewports';
+import { useLightingPresets } from '@/hooks/useLightingPresets';
+import { getDefaultConfig } from '@/lib/renderer';
+import { DEFAULT_SHADOW_SETTINGS } from '@/lib/shadows';
+import { DEFAULT_TOON_SETTINGS } from '@/lib/toon';
+import { DEFAULT_FOG_SETTINGS } from '@/lib/fog';
+import { DEFAULT_LOD_QUALITY } from '@/lib/lod';
+import {
+  serializeScene,
+  deserializeScene,
+  SceneFileError,
+  SCENE_FILE_EXTENSION,
+} from '@/lib/sceneFile';
+import { downloadFile, readFileAsText } from '@/lib/download';
+import { exportSceneToSvg, SvgExportOptions } from '@/lib/svgExport';
+import { exportAnimatedSvg, AnimatedSvgExportOptions } from '@/lib/animatedSvgExport';
+import { objToSceneObjects, parseMtl, MtlLibrary } from '@/lib/objImport';
+import { exportObj, exportStl, exportGltf, ModelExportFormat } from '@/lib/meshExport';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
 
 import { TopBar } from '@/components/layout/TopBar';
 import { IconBar } from '@/components/layout/IconBar';
 import { MiniBar } from '@/components/layout/MiniBar';
 import { BottomBar } from '@/components/layout/BottomBar';
 import { Timeline } from '@/components/layout/Timeline';
-import { Viewport } from '@/components/engine/Viewport';
+import { ViewportPane } from '@/components/engine/ViewportPane';
 
 import { DrawerContainer } from '@/components/drawers/DrawerContainer';
 import { ObjectsDrawer } from '@/components/drawers/ObjectsDrawer';
 import { LightingDrawer } from '@/components/drawers/LightingDrawer';
 import { PropertiesDrawer } from '@/components/drawers/PropertiesDrawer';
+import { LightPropertiesDrawer } from '@/components/drawers/LightPropertiesDrawer';
+import { HistoryDrawer } from '@/components/drawers/HistoryDrawer';
+import { RenderingDrawer } from '@/components/drawers/RenderingDrawer';
+import { SvgExportDialog } from '@/components/dialogs/SvgExportDialog';
+import { AnimatedSvgExportDialog } from '@/components/dialogs/AnimatedSvgExportDialog';
+
+// Timeline range
+const TIMELINE_FRAMES = 120;
+const TIMELINE_FPS = 24;
 
 interface EngineLayoutProps {
   engineType?: EngineType;
@@ -35,6 +75,16 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
   const [cameraPreset, setCameraPreset] = useState<CameraPreset>('perspective');
   const [renderMode, setRenderMode] = useState<RenderMode>('solid');
   const [showStats, setShowStats] = useState(false);
+  const [sortMode, setSortMode] = useState<FaceSortMode>('painter');
+  const [shadows, setShadows] = useState<ShadowSettings>(DEFAULT_SHADOW_SETTINGS);
+  const [hiddenEdges, setHiddenEdges] = useState(true);
+  const [normalColors, setNormalColors] = useState(false);
+  const [toon, setToon] = useState<ToonSettings>(DEFAULT_TOON_SETTINGS);
+  const [lodQuality, setLodQuality] = useState<LodQuality>(DEFAULT_LOD_QUALITY);
+  
+  // Export dialog state
+  const [svgExportOpen, setSvgExportOpen] = useState(false);
+  const [animatedExportOpen, setAnimatedExportOpen] = useState(false);
   
   // Animation state
   const [currentFrame, setCurrentFrame] = useState(0);
@@ -50,17 +100,87 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
     selectedObject,
     selectObject,
     addObject,
+    addObjects,
     updateObject,
     applyTransform,
     deleteObject,
+    selectedLight,
+    selectLight,
+    addLight,
+    updateLight,
+    moveLight,
+    deleteLight,
     rotateCamera,
     panCamera,
     zoomCamera,
+    setCameraView,
+    setProjection,
     toggleGrid,
-    setLightingMode,
+    applyLightingPreset,
+    updateFog,
     resetCamera,
+    loadScene,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    historyEntries,
+    historyIndex,
+    jumpToHistory,
+    sealHistoryEntry,
   } = useScene();
   
+  // Axis presets switch to orthographic; orbiting out of one returns to perspective
+  const handleCameraPresetChange = useCallback((preset: CameraPreset) => {
+    setCameraPreset(preset);
+    setCameraView(preset);
+  }, [setCameraView]);
+  
+  const handleCameraRotate = useCallback((rotation: Vector3) => {
+    if (cameraPreset !== 'perspective') {
+      setCameraPreset('perspective');
+      rotateCamera(rotation, 'perspective');
+    } else {
+      rotateCamera(rotation);
+    }
+  }, [cameraPreset, rotateCamera]);
+  
+  const handleProjectionChange = useCallback((projection: ProjectionMode) => {
+    if (projection === 'perspective') setCameraPreset('perspective');
+    setProjection(projection);
+  }, [setProjection]);
+  
+  // Built-in and saved light rigs
+  const {
+    presets: lightingPresets,
+    savePreset: saveLightingPreset,
+    deletePreset: deleteLightingPreset,
+    findPreset: findLightingPreset,
+  } = useLightingPresets();
+  
+  // Split viewports; the main pane is driven by the scene camera and saved settings
+  const viewports = useViewports({
+    view: { camera: scene.camera, preset: cameraPreset, renderMode, gridVisible: scene.gridVisible },
+    actions: {
+      orbit: handleCameraRotate,
+      pan: panCamera,
+      zoom: zoomCamera,
+      setPreset: handleCameraPresetChange,
+      setProjection: handleProjectionChange,
+      setRenderMode,
+      toggleGrid,
+    },
+  });
+  const { toggleMaximize } = viewports;
+  const activeView = viewports.viewFor(viewports.activeId);
+  const activeActions = viewports.actionsFor(viewports.activeId);
+  
+  // Scene file input (Open Scene)
+  const sceneFileInputRef = useRef<HTMLInputElement>(null);
+  
+  // Model file input (Import OBJ + MTL)
+  const modelFileInputRef = useRef<HTMLInputElement>(null);
+  
   // Check if scene has any animated effects
   const hasAnimatedEffects = useMemo(() => {
     return scene.objects.some(obj => 
@@ -96,15 +216,194 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
   }, [hasAnimatedEffects]);
   
   // Render config
-  const config = useMemo(() => getDefaultConfig(), []);
+  const config = useMemo(
+    () => ({ ...getDefaultConfig(), sortMode, shadows, hiddenEdges, normalColors, toon, lodQuality }),
+    [sortMode, shadows, hiddenEdges, normalColors, toon, lodQuality]
+  );
 
-  // Actual viewport size (reported by <Viewport />)
+  // Main viewport size (export defaults) and the focused pane's render cost
   const [viewportSize, setViewportSize] = useState({ width: 1200, height: 700 });
-
-  // Render the scene with animation time
-  const projectedFaces = useMemo(() => {
-    return renderScene(scene, config, viewportSize.width, viewportSize.height, animationTime);
-  }, [scene, config, viewportSize, animationTime]);
+  const [renderStats, setRenderStats] = useState<RenderStats>();
+  
+  // Save scene to a file
+  const handleSaveScene = useCallback(() => {
+    const json = serializeScene(scene, {
+      renderMode,
+      cameraPreset,
+      gridVisible: scene.gridVisible,
+      axisVisible: scene.axisVisible,
+      shadows,
+      hiddenEdges,
+      normalColors,
+      toon,
+      lodQuality,
+    });
+    downloadFile(json, `scene${SCENE_FILE_EXTENSION}`, 'application/json');
+  }, [scene, renderMode, cameraPreset, shadows, hiddenEdges, normalColors, toon, lodQuality]);
+  
+  // Open scene from a file
+  const handleOpenScene = useCallback(() => {
+    sceneFileInputRef.current?.click();
+  }, []);
+  
+  const handleSceneFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const { scene: loaded, renderSettings } = deserializeScene(await readFileAsText(file));
+      loadScene(loaded);
+      setRenderMode(renderSettings.renderMode);
+      setCameraPreset(renderSettings.cameraPreset);
+      setShadows(renderSettings.shadows ?? DEFAULT_SHADOW_SETTINGS);
+      setHiddenEdges(renderSettings.hiddenEdges ?? true);
+      setNormalColors(renderSettings.normalColors ?? false);
+      setToon(renderSettings.toon ?? DEFAULT_TOON_SETTINGS);
+      setLodQuality(renderSettings.lodQuality ?? DEFAULT_LOD_QUALITY);
+      toast.success(`Opened ${file.name}`);
+    } catch (err) {
+      if (err instanceof SceneFileError) {
+        toast.error(`Could not open ${file.name}`, {
+          description: err.issues.length > 0 ? err.issues.slice(0, 5).join('\n') : err.message,
+        });
+      } else {
+        toast.error(`Could not open ${file.name}`, {
+          description: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }, [loadScene]);
+  
+  // Import OBJ models; MTL files picked alongside supply Kd colors
+  const handleImportModel = useCallback(() => {
+    modelFileInputRef.current?.click();
+  }, []);
+  
+  const handleModelFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    
+    const objFiles = files.filter(f => f.name.toLowerCase().endsWith('.obj'));
+    const mtlFiles = files.filter(f => f.name.toLowerCase().endsWith('.mtl'));
+    if (objFiles.length === 0) {
+      toast.error('No .obj file selected');
+      return;
+    }
+    
+    for (const file of objFiles) {
+      try {
+        let materials: MtlLibrary = {};
+        for (const mtl of mtlFiles) {
+          materials = { ...materials, ...parseMtl(await readFileAsText(mtl)) };
+        }
+        const objects = objToSceneObjects(await readFileAsText(file), materials);
+        addObjects(objects, `Import ${file.name}`);
+        toast.success(`Imported ${file.name}`, {
+          description: `${objects.length} object${objects.length === 1 ? '' : 's'}`,
+        });
+      } catch (err) {
+        toast.error(`Could not import ${file.name}`, {
+          description: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }, [addObjects]);
+  
+  // Export the current view as a static SVG
+  const handleExportSvg = useCallback((options: SvgExportOptions) => {
+    const svg = exportSceneToSvg(scene, config, options, animationTime);
+    downloadFile(svg, 'scene.svg', 'image/svg+xml');
+    setSvgExportOpen(false);
+  }, [scene, config, animationTime]);
+  
+  // Export the timeline as an animated SVG
+  const handleExportAnimatedSvg = useCallback((options: AnimatedSvgExportOptions) => {
+    try {
+      const svg = exportAnimatedSvg(() => scene, config, options);
+      downloadFile(svg, 'scene-animated.svg', 'image/svg+xml');
+      setAnimatedExportOpen(false);
+    } catch (err) {
+      toast.error('Animated export failed', {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [scene, config]);
+  
+  // Export visible objects as world-space geometry
+  const handleExportModel = useCallback((format: ModelExportFormat) => {
+    if (!scene.objects.some(obj => obj.visible)) {
+      toast.error('Nothing to export', { description: 'The scene has no visible objects' });
+      return;
+    }
+    
+    switch (format) {
+      case 'obj': {
+        const { obj, mtl } = exportObj(scene, animationTime, 'scene.mtl');
+        downloadFile(obj, 'scene.obj', 'model/obj');
+        downloadFile(mtl, 'scene.mtl', 'model/mtl');
+        // Browsers may hold back the second download until it is allowed
+        toast.info('Exported scene.obj and scene.mtl', {
+          description: 'The materials download as a second file; keep it next to the OBJ',
+        });
+        break;
+      }
+      case 'stl-binary':
+        downloadFile(exportStl(scene, animationTime, true), 'scene.stl', 'model/stl');
+        break;
+      case 'stl-ascii':
+        downloadFile(exportStl(scene, animationTime, false), 'scene.stl', 'model/stl');
+        break;
+      case 'gltf':
+        downloadFile(exportGltf(scene, animationTime), 'scene.gltf', 'model/gltf+json');
+        break;
+    }
+  }, [scene, animationTime]);
+  
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      const key = e.key.toLowerCase();
+      const target = e.target as HTMLElement | null;
+      const isEditingText = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+      
+      if ((key === 'z' || key === 'y') && !isEditingText) {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 's') {
+        e.preventDefault();
+        handleSaveScene();
+      } else if (key === 'o') {
+        e.preventDefault();
+        handleOpenScene();
+      } else if (key === ' ' && !isEditingText) {
+        e.preventDefault();
+        toggleMaximize();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSaveScene, handleOpenScene, undo, redo, toggleMaximize]);
+  
+  // Lighting presets: the bottom bar flips between the built-in day and night rigs
+  const handleLightingModeChange = useCallback((id: string) => {
+    const preset = findLightingPreset(id);
+    if (preset) applyLightingPreset(preset);
+  }, [findLightingPreset, applyLightingPreset]);
+  
+  const handleSaveLightingPreset = useCallback((name: string) => {
+    const preset = saveLightingPreset(name, scene.lights);
+    applyLightingPreset(preset);
+    toast.success(`Saved lighting preset "${preset.name}"`);
+  }, [saveLightingPreset, scene.lights, applyLightingPreset]);
   
   // Handle drawer toggle
   const handleDrawerToggle = useCallback((drawerId: string) => {
@@ -137,6 +436,7 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
             selectedId={scene.selectedObjectId}
             onSelect={selectObject}
             onAdd={addObject}
+            onAddLight={addLight}
             onDelete={deleteObject}
             onToggleVisibility={handleToggleVisibility}
             onToggleLock={handleToggleLock}
@@ -145,8 +445,30 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
       case 'lighting':
         return (
           <LightingDrawer
+            lights={scene.lights}
+            selectedLightId={scene.selectedLightId}
             lightingMode={scene.lightingMode}
-            onLightingModeChange={setLightingMode}
+            presets={lightingPresets}
+            onApplyPreset={applyLightingPreset}
+            onSavePreset={handleSaveLightingPreset}
+            onDeletePreset={deleteLightingPreset}
+            onSelectLight={selectLight}
+            onAddLight={addLight}
+            onUpdateLight={updateLight}
+            onDeleteLight={deleteLight}
+            onLightEditEnd={sealHistoryEntry}
+            shadows={shadows}
+            onShadowsChange={setShadows}
+          />
+        );
+      case 'history':
+        return (
+          <HistoryDrawer
+            entries={historyEntries}
+            currentIndex={historyIndex}
+            onJump={jumpToHistory}
+            onUndo={undo}
+            onRedo={redo}
           />
         );
       case 'effects':
@@ -155,8 +477,19 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
             3D SDF Effects coming soon - will add metaballs, fluid, clouds as scene objects
           </div>
         );
-      case 'camera':
       case 'rendering':
+        return (
+          <RenderingDrawer
+            toon={toon}
+            onToonChange={setToon}
+            fog={scene.fog ?? DEFAULT_FOG_SETTINGS}
+            onFogChange={updateFog}
+            onFogEditEnd={sealHistoryEntry}
+            lodQuality={lodQuality}
+            onLodQualityChange={setLodQuality}
+          />
+        );
+      case 'camera':
       case 'settings':
       case 'boolean':
       case 'sdf-settings':
@@ -176,6 +509,7 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
       case 'objects': return 'Objects';
       case 'camera': return 'Camera';
       case 'lighting': return 'Lighting';
+      case 'history': return 'History';
       case 'rendering': return 'Rendering';
       case 'effects': return 'Effects';
       case 'settings': return 'Settings';
@@ -191,6 +525,51 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
       <TopBar
         currentEngine={currentEngine}
         onEngineChange={setCurrentEngine}
+        onOpenScene={handleOpenScene}
+        onSaveScene={handleSaveScene}
+        onImportModel={handleImportModel}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        historyOpen={activeDrawer === 'history'}
+        onToggleHistory={() => handleDrawerToggle('history')}
+        onExportSvg={() => setSvgExportOpen(true)}
+        onExportAnimatedSvg={() => setAnimatedExportOpen(true)}
+        onExportModel={handleExportModel}
+        viewportLayout={viewports.layout}
+        onViewportLayoutChange={viewports.setLayout}
+      />
+      <SvgExportDialog
+        open={svgExportOpen}
+        onOpenChange={setSvgExportOpen}
+        defaultWidth={viewportSize.width}
+        defaultHeight={viewportSize.height}
+        onExport={handleExportSvg}
+      />
+      <AnimatedSvgExportDialog
+        open={animatedExportOpen}
+        onOpenChange={setAnimatedExportOpen}
+        defaultWidth={viewportSize.width}
+        defaultHeight={viewportSize.height}
+        totalFrames={TIMELINE_FRAMES}
+        fps={TIMELINE_FPS}
+        onExport={handleExportAnimatedSvg}
+      />
+      <input
+        ref={sceneFileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleSceneFileChange}
+      />
+      <input
+        ref={modelFileInputRef}
+        type="file"
+        accept=".obj,.mtl"
+        multiple
+        className="hidden"
+        onChange={handleModelFileChange}
       />
       
       {/* Main Content Area */}
@@ -206,22 +585,40 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
         <div className="flex-1 flex flex-col min-w-0 relative">
           {/* Viewport */}
           <div className="flex-1 min-h-0 relative">
-            <Viewport
-              projectedFaces={projectedFaces}
-              selectedObjectId={scene.selectedObjectId}
-              activeTool={activeTool}
-              cameraRotation={scene.camera.rotation}
-              cameraPosition={scene.camera.position}
-              cameraFov={scene.camera.fov}
-              gridVisible={scene.gridVisible}
-              renderMode={renderMode}
-              onViewportResize={setViewportSize}
-              onObjectClick={selectObject}
-              onCameraRotate={rotateCamera}
-              onCameraPan={panCamera}
-              onCameraZoom={zoomCamera}
-              onObjectTransform={applyTransform}
-            />
+            <div
+              className={cn(
+                "absolute inset-0 grid gap-px bg-border/50",
+                viewports.paneIds.length > 1 && "grid-cols-2",
+                viewports.paneIds.length > 2 && "grid-rows-2"
+              )}
+            >
+              {viewports.paneIds.map(id => (
+                <ViewportPane
+                  key={id}
+                  scene={scene}
+                  view={viewports.viewFor(id)}
+                  actions={viewports.actionsFor(id)}
+                  config={config}
+                  animationTime={animationTime}
+                  activeTool={activeTool}
+                  showChrome={viewports.layout !== 'single'}
+                  isActive={id === viewports.activeId}
+                  isMaximized={viewports.maximizedId === id}
+                  onActivate={() => viewports.setActiveId(id)}
+                  onToggleMaximize={() => {
+                    viewports.setActiveId(id);
+                    viewports.toggleMaximize(id);
+                  }}
+                  onObjectClick={selectObject}
+                  onObjectTransform={applyTransform}
+                  onLightClick={selectLight}
+                  onLightMove={moveLight}
+                  onInteractionEnd={sealHistoryEntry}
+                  onRenderStats={id === viewports.activeId ? setRenderStats : undefined}
+                  onViewportResize={id === MAIN_VIEWPORT_ID ? setViewportSize : undefined}
+                />
+              ))}
+            </div>
             
             {/* Properties panel when object selected */}
             {selectedObject && activeDrawer !== 'objects' && (
@@ -239,6 +636,30 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
                   <PropertiesDrawer
                     object={selectedObject}
                     onUpdate={updateObject}
+                    onEditEnd={sealHistoryEntry}
+                  />
+                </div>
+              </div>
+            )}
+            
+            {/* Light properties when a light is selected (the Lighting drawer has its own) */}
+            {selectedLight && activeDrawer !== 'objects' && activeDrawer !== 'lighting' && (
+              <div className="absolute top-4 right-4 w-72 bg-panel/95 backdrop-blur-xl border border-border/50 rounded-lg shadow-panel overflow-hidden z-20">
+                <div className="h-8 flex items-center justify-between px-3 border-b border-border/30">
+                  <span className="text-xs font-medium text-primary">Light</span>
+                  <button
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => selectLight(null)}
+                  >
+                    ×
+                  </button>
+                </div>
+                <div className="max-h-80 overflow-y-auto scrollbar-thin">
+                  <LightPropertiesDrawer
+                    light={selectedLight}
+                    onUpdate={updateLight}
+                    onDelete={deleteLight}
+                    onEditEnd={sealHistoryEntry}
                   />
                 </div>
               </div>
@@ -248,8 +669,8 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
           {/* Timeline */}
           <Timeline
             currentFrame={currentFrame}
-            totalFrames={120}
-            fps={24}
+            totalFrames={TIMELINE_FRAMES}
+            fps={TIMELINE_FPS}
             isPlaying={isPlaying}
             onPlayPause={() => setIsPlaying(!isPlaying)}
             onSeek={setCurrentFrame}
@@ -257,16 +678,26 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
           
           {/* Bottom Bar */}
           <BottomBar
-            showGrid={scene.gridVisible}
-            onToggleGrid={toggleGrid}
+            showGrid={activeView.gridVisible}
+            onToggleGrid={activeActions.toggleGrid}
             lightingMode={scene.lightingMode}
-            onLightingModeChange={setLightingMode}
-            cameraPreset={cameraPreset}
-            onCameraPresetChange={setCameraPreset}
-            renderMode={renderMode}
-            onRenderModeChange={setRenderMode}
+            lightingName={findLightingPreset(scene.lightingMode)?.name}
+            onLightingModeChange={handleLightingModeChange}
+            cameraPreset={activeView.preset}
+            onCameraPresetChange={activeActions.setPreset}
+            projection={activeView.camera.projection ?? 'perspective'}
+            onProjectionChange={activeActions.setProjection}
+            renderMode={activeView.renderMode}
+            onRenderModeChange={activeActions.setRenderMode}
+            showHiddenEdges={hiddenEdges}
+            onToggleHiddenEdges={() => setHiddenEdges(!hiddenEdges)}
+            normalColors={normalColors}
+            onToggleNormalColors={() => setNormalColors(!normalColors)}
             showStats={showStats}
             onToggleStats={() => setShowStats(!showStats)}
+            renderStats={renderStats}
+            sortMode={sortMode}
+            onSortModeChange={setSortMode}
             showEffects={false}
             onToggleEffects={() => handleDrawerToggle('effects')}
             objectCount={scene.objects.length}
@@ -281,6 +712,9 @@ export const EngineLayout: React.FC<EngineLayoutProps> = ({
           onSelect={selectObject}
           onToggleVisibility={handleToggleVisibility}
           onToggleLock={handleToggleLock}
+          lights={scene.lights}
+          selectedLightId={scene.selectedLightId}
+          onSelectLight={selectLight}
         />
         
         {/* Right Icon Bar (Drawers) */}
@@ -1,8 +1,10 @@
 import React from 'react';
 import { Eye, EyeOff, Lock, Unlock } from 'lucide-react';
-import { SceneObject } from '@/types/engine';
+import { SceneObject, Light } from '@/types/engine';
+import { lightName } from '@/lib/lights';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { LightIcon } from '@/components/engine/LightIcon';
 
 interface MiniBarProps {
   objects: SceneObject[];
@@ -10,6 +12,9 @@ interface MiniBarProps {
   onSelect: (id: string) => void;
   onToggleVisibility?: (id: string) => void;
   onToggleLock?: (id: string) => void;
+  lights?: Light[];
+  selectedLightId?: string | null;
+  onSelectLight?: (id: string) => void;
   className?: string;
 }
 
@@ -19,6 +24,9 @@ export const MiniBar: React.FC<MiniBarProps> = ({
   onSelect,
   onToggleVisibility,
   onToggleLock,
+  lights = [],
+  selectedLightId,
+  onSelectLight,
   className,
 }) => {
   return (
@@ -118,12 +126,50 @@ export const MiniBar: React.FC<MiniBarProps> = ({
             </TooltipContent>
           </Tooltip>
         ))}
+        
+        {/* Lights, after the objects */}
+        {lights.length > 0 && objects.length > 0 && (
+          <div className="my-1.5 border-t border-border/30" />
+        )}
+        {lights.map((light) => (
+          <Tooltip key={light.id} delayDuration={300}>
+            <TooltipTrigger asChild>
+              <div
+                className={cn(
+                  "relative aspect-square mb-1 rounded cursor-pointer",
+                  "border border-border/30 overflow-hidden",
+                  "hover:border-primary/50 transition-all duration-150",
+                  selectedLightId === light.id && "border-primary bg-primary/10"
+                )}
+                onClick={() => onSelectLight?.(light.id)}
+              >
+                <div
+                  className="w-full h-full flex items-center justify-center"
+                  style={{ backgroundColor: light.color + '20' }}
+                >
+                  <LightIcon type={light.type} className="w-4 h-4" color={light.color} />
+                </div>
+                
+                {/* Selection indicator */}
+                {selectedLightId === light.id && (
+                  <div className="absolute left-0 top-0 bottom-0 w-0.5 bg-primary" />
+                )}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+              <div className="text-xs">
+                <div className="font-medium">{lightName(light)}</div>
+                <div className="text-muted-foreground capitalize">{light.type} light</div>
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        ))}
       </div>
       
       {/* Footer */}
       <div className="py-1 px-1 border-t border-border/30">
         <div className="text-[10px] text-muted-foreground text-center tabular-nums">
-          {objects.length}
+          {objects.length + lights.length}
         </div>
       </div>
     </div>
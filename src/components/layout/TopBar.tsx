@@ -7,14 +7,21 @@ import {
   Copy,
   Clipboard,
   Trash2,
-  Layers
+  Layers,
+  FolderOpen,
+  Save,
+  Download,
+  FileUp
 } from 'lucide-react';
-import { EngineType } from '@/types/engine';
+import { EngineType, ViewportLayout } from '@/types/engine';
+import { ModelExportFormat } from '@/lib/meshExport';
 import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
@@ -25,8 +32,31 @@ interface TopBarProps {
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  onOpenScene?: () => void;
+  onSaveScene?: () => void;
+  onImportModel?: () => void;
+  historyOpen?: boolean;
+  onToggleHistory?: () => void;
+  onExportSvg?: () => void;
+  onExportAnimatedSvg?: () => void;
+  onExportModel?: (format: ModelExportFormat) => void;
+  viewportLayout?: ViewportLayout;
+  onViewportLayoutChange?: (layout: ViewportLayout) => void;
 }
 
+const modelFormats: { id: ModelExportFormat; label: string }[] = [
+  { id: 'obj', label: 'OBJ + MTL' },
+  { id: 'stl-binary', label: 'STL (Binary)' },
+  { id: 'stl-ascii', label: 'STL (ASCII)' },
+  { id: 'gltf', label: 'glTF 2.0' },
+];
+
+const viewportLayouts: { id: ViewportLayout; label: string }[] = [
+  { id: 'single', label: 'Single View' },
+  { id: 'split', label: 'Two Views' },
+  { id: 'quad', label: 'Four Views' },
+];
+
 const engineLabels: Record<EngineType, string> = {
   classic: 'SVG Classic',
   sdflux: 'SDFlux',
@@ -39,6 +69,16 @@ export const TopBar: React.FC<TopBarProps> = ({
   onRedo,
   canUndo = false,
   canRedo = false,
+  onOpenScene,
+  onSaveScene,
+  onImportModel,
+  historyOpen = false,
+  onToggleHistory,
+  onExportSvg,
+  onExportAnimatedSvg,
+  onExportModel,
+  viewportLayout = 'single',
+  onViewportLayoutChange,
 }) => {
   return (
     <header className="h-12 bg-panel border-b border-border/50 flex items-center px-4 gap-4 no-select">
@@ -73,6 +113,66 @@ export const TopBar: React.FC<TopBarProps> = ({
       {/* Separator */}
       <div className="w-px h-6 bg-border/50" />
       
+      {/* File Actions */}
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="icon-btn w-8 h-8"
+          onClick={onOpenScene}
+          title="Open Scene (Ctrl+O)"
+        >
+          <FolderOpen className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="icon-btn w-8 h-8"
+          onClick={onSaveScene}
+          title="Save Scene (Ctrl+S)"
+        >
+          <Save className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="icon-btn w-8 h-8"
+          onClick={onImportModel}
+          title="Import Model (OBJ + MTL)"
+        >
+          <FileUp className="w-4 h-4" />
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="icon-btn w-8 h-8"
+              title="Export"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="bg-panel border-border">
+            <DropdownMenuItem onClick={onExportSvg}>
+              SVG Image…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onExportAnimatedSvg}>
+              Animated SVG…
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            {modelFormats.map((format) => (
+              <DropdownMenuItem key={format.id} onClick={() => onExportModel?.(format.id)}>
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      
+      {/* Separator */}
+      <div className="w-px h-6 bg-border/50" />
+      
       {/* Edit Actions */}
       <div className="flex items-center gap-1">
         <Button
@@ -98,7 +198,8 @@ export const TopBar: React.FC<TopBarProps> = ({
         <Button
           variant="ghost"
           size="icon"
-          className="icon-btn w-8 h-8"
+          className={cn("icon-btn w-8 h-8", historyOpen && "active")}
+          onClick={onToggleHistory}
           title="History"
         >
           <History className="w-4 h-4" />
@@ -140,14 +241,29 @@ export const TopBar: React.FC<TopBarProps> = ({
       <div className="flex-1" />
       
       {/* View Options */}
-      <Button
-        variant="ghost"
-        size="icon"
-        className="icon-btn w-8 h-8"
-        title="Split View"
-      >
-        <Columns className="w-4 h-4" />
-      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("icon-btn w-8 h-8", viewportLayout !== 'single' && "active")}
+            title="Split View"
+          >
+            <Columns className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-panel border-border">
+          {viewportLayouts.map((layout) => (
+            <DropdownMenuItem
+              key={layout.id}
+              onClick={() => onViewportLayoutChange?.(layout.id)}
+              className={viewportLayout === layout.id ? 'bg-secondary' : ''}
+            >
+              {layout.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
       
       {/* Brand */}
       <div className="text-xs text-muted-foreground font-mono">
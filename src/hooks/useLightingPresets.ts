@@ -0,0 +1,41 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Light, LightingPreset } from '@/types/engine';
+import { builtInPresets, loadSavedPresets, storeSavedPresets } from '@/lib/lightingPresets';
+
+// Built-in rigs plus the user's saved ones (persisted in local storage)
+export const useLightingPresets = () => {
+  const [saved, setSaved] = useState<LightingPreset[]>(loadSavedPresets);
+
+  // Persist outside the state updater, which React may run more than once
+  useEffect(() => {
+    storeSavedPresets(saved);
+  }, [saved]);
+
+  // Save the lights under a name; an existing saved preset with that name is replaced
+  const savePreset = useCallback((name: string, lights: Light[]): LightingPreset => {
+    const trimmed = name.trim();
+    const existing = saved.find(preset => preset.name === trimmed);
+    const preset: LightingPreset = {
+      id: existing?.id ?? `preset-${Date.now()}`,
+      name: trimmed,
+      lights,
+    };
+    setSaved(prev => existing
+      ? prev.map(p => (p.id === existing.id ? preset : p))
+      : [...prev, preset]);
+    return preset;
+  }, [saved]);
+
+  const deletePreset = useCallback((id: string) => {
+    setSaved(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  const presets = useMemo(() => [...builtInPresets, ...saved], [saved]);
+
+  const findPreset = useCallback(
+    (id: string) => presets.find(preset => preset.id === id) ?? null,
+    [presets]
+  );
+
+  return { presets, savePreset, deletePreset, findPreset };
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+import { RenderJob, RenderFrame, RenderRequest, RenderResponse, renderFrame, unpackFrame } from '@/lib/frameBuffers';
+import { createLodMemory } from '@/lib/lod';
+
+const EMPTY_FRAME: RenderFrame = {
+  faces: [],
+  edgeSegments: [],
+  shadows: [],
+  stats: { faces: 0, splits: 0, sortMs: 0, cacheHits: 0, cacheMisses: 0 },
+};
+
+const requestFrame = (worker: Worker, id: number, job: RenderJob) => {
+  const request: RenderRequest = { id, job };
+  worker.postMessage(request);
+};
+
+// Render a viewport's frames in a Web Worker. At most one frame is in flight;
+// jobs that arrive meanwhile replace each other, so stale frames are never
+// rendered and the last finished frame stays on screen until the next lands.
+// Renders on the main thread when workers are unavailable or the worker fails.
+// `job` must be memoized: every new object requests a frame.
+export const useRenderWorker = (job: RenderJob): RenderFrame => {
+  const [frame, setFrame] = useState<RenderFrame>(EMPTY_FRAME);
+  const workerRef = useRef<Worker | null>(null);
+  const latestJobRef = useRef(job);
+  const queuedJobRef = useRef<RenderJob | null>(null);
+  // Id of the request in flight, or null when the worker is idle
+  const inFlightRef = useRef<number | null>(null);
+  const nextIdRef = useRef(0);
+  // Level-of-detail state for frames rendered on this thread
+  const lodRef = useRef(createLodMemory());
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+
+    const worker = new Worker(new URL('../workers/renderWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<RenderResponse>) => {
+      const { id, frame: packed } = event.data;
+      if (id !== inFlightRef.current) return;
+      setFrame(unpackFrame(packed));
+
+      const queued = queuedJobRef.current;
+      queuedJobRef.current = null;
+      inFlightRef.current = null;
+      if (queued) {
+        inFlightRef.current = ++nextIdRef.current;
+        requestFrame(worker, inFlightRef.current, queued);
+      }
+    };
+
+    // Failed to load or threw while rendering: finish on the main thread
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+      queuedJobRef.current = null;
+      setFrame(renderFrame(latestJobRef.current, lodRef.current));
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+      queuedJobRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    latestJobRef.current = job;
+    const worker = workerRef.current;
+    if (!worker) {
+      setFrame(renderFrame(job, lodRef.current));
+    } else if (inFlightRef.current !== null) {
+      queuedJobRef.current = job;
+    } else {
+      inFlightRef.current = ++nextIdRef.current;
+      requestFrame(worker, inFlightRef.current, job);
+    }
+  }, [job]);
+
+  return frame;
+};
@@ -2,13 +2,30 @@ import { useState, useCallback, useMemo } from 'react';
 import {
   Scene,
   SceneObject,
+  Light,
+  LightType,
+  LightingPreset,
   PrimitiveType,
   Vector3,
   TransformDelta,
-  Camera,
+  CameraPreset,
+  ProjectionMode,
   Material,
+  FogSettings,
 } from '@/types/engine';
 import { getLightsForMode } from '@/lib/renderer';
+import { createLight, lightName, lightTypeLabels } from '@/lib/lights';
+import { DEFAULT_FOG_SETTINGS } from '@/lib/fog';
+import { defaultCamera, applyOrbit, applyPan, applyZoom, applyViewPreset } from '@/lib/camera';
+import {
+  SceneHistory,
+  createHistory,
+  recordChange,
+  sealHistory,
+  undoChange,
+  redoChange,
+  jumpToIndex,
+} from '@/lib/history';
 
 // Default materials
 const defaultMaterials: Record<string, Material> = {
@@ -56,15 +73,6 @@ const defaultMaterials: Record<string, Material> = {
 
 const materialKeys = Object.keys(defaultMaterials);
 
-// Default camera
-const defaultCamera: Camera = {
-  position: { x: 0, y: 0, z: 500 },
-  rotation: { x: 0.4, y: -0.5, z: 0 },
-  fov: 800,
-  near: 1,
-  far: 2000,
-};
-
 // Create initial scene
 const createInitialScene = (): Scene => ({
   objects: [
@@ -106,13 +114,68 @@ const createInitialScene = (): Scene => ({
   camera: defaultCamera,
   cursor3D: { x: 0, y: 0, z: 0 },
   selectedObjectId: null,
+  selectedLightId: null,
   gridVisible: true,
   axisVisible: true,
   lightingMode: 'night',
 });
 
+// Human-readable primitive name ("fluidBlob" -> "FluidBlob")
+const typeLabel = (type: PrimitiveType): string =>
+  type.charAt(0).toUpperCase() + type.slice(1);
+
+const objectName = (scene: Scene, id: string): string =>
+  scene.objects.find(obj => obj.id === id)?.name ?? 'Object';
+
+const findLightName = (scene: Scene, id: string): string => {
+  const light = scene.lights.find(l => l.id === id);
+  return light ? lightName(light) : 'Light';
+};
+
+// Fields an object edit changes, down into nested blocks ("material.color"), so
+// edits to different material or geometry fields never coalesce into one entry
+const editedFields = (scene: Scene, id: string, updates: Partial<SceneObject>): string =>
+  Object.entries(updates).flatMap(([key, value]) => {
+    const current = scene.objects.find(obj => obj.id === id)?.[key as keyof SceneObject];
+    if (!value || typeof value !== 'object' || !current || typeof current !== 'object') return [key];
+    const nested = Object.keys(value).filter(field => value[field] !== current[field]);
+    return nested.map(field => `${key}.${field}`);
+  }).sort().join(',');
+
+interface SceneState {
+  scene: Scene;
+  history: SceneHistory;
+}
+
 export const useScene = () => {
-  const [scene, setScene] = useState<Scene>(createInitialScene);
+  const [state, setState] = useState<SceneState>(() => ({
+    scene: createInitialScene(),
+    history: createHistory(),
+  }));
+  const { scene, history } = state;
+  
+  // Change the scene without recording history (selection, view toggles)
+  const setScene = useCallback((recipe: (prev: Scene) => Scene) => {
+    setState(prev => ({ ...prev, scene: recipe(prev.scene) }));
+  }, []);
+  
+  // Change the scene and record an undoable history entry
+  const commit = useCallback((
+    label: string | ((prev: Scene) => string),
+    recipe: (prev: Scene) => Scene,
+    coalesceKey?: string | ((prev: Scene) => string)
+  ) => {
+    setState(prev => {
+      const next = recipe(prev.scene);
+      if (next === prev.scene) return prev;
+      const name = typeof label === 'function' ? label(prev.scene) : label;
+      const key = typeof coalesceKey === 'function' ? coalesceKey(prev.scene) : coalesceKey;
+      return {
+        scene: next,
+        history: recordChange(prev.history, prev.scene, next, name, key),
+      };
+    });
+  }, []);
   
   // Selected object
   const selectedObject = useMemo(() => {
@@ -120,146 +183,233 @@ export const useScene = () => {
     return scene.objects.find(obj => obj.id === scene.selectedObjectId) || null;
   }, [scene.selectedObjectId, scene.objects]);
   
+  // Selected light
+  const selectedLight = useMemo(() => {
+    if (!scene.selectedLightId) return null;
+    return scene.lights.find(light => light.id === scene.selectedLightId) || null;
+  }, [scene.selectedLightId, scene.lights]);
+  
   // Select object
   const selectObject = useCallback((id: string | null) => {
     setScene(prev => ({
       ...prev,
       selectedObjectId: id,
+      selectedLightId: null,
     }));
-  }, []);
+  }, [setScene]);
+  
+  // Select light
+  const selectLight = useCallback((id: string | null) => {
+    setScene(prev => ({
+      ...prev,
+      selectedObjectId: null,
+      selectedLightId: id,
+    }));
+  }, [setScene]);
   
   // Add object
   const addObject = useCallback((type: PrimitiveType) => {
     const id = `${type}-${Date.now()}`;
     const materialIndex = Math.floor(Math.random() * materialKeys.length);
     const material = defaultMaterials[materialKeys[materialIndex]];
-    
-    const newObject: SceneObject = {
-      id,
-      name: `${type.charAt(0).toUpperCase() + type.slice(1)} ${scene.objects.length + 1}`,
-      type,
-      position: { 
-        x: (Math.random() - 0.5) * 100, 
-        y: (Math.random() - 0.5) * 100, 
-        z: (Math.random() - 0.5) * 50 
-      },
-      rotation: { x: 0, y: 0, z: 0 },
-      scale: { x: 1, y: 1, z: 1 },
-      material,
-      visible: true,
-      locked: false,
+    const position: Vector3 = {
+      x: (Math.random() - 0.5) * 100,
+      y: (Math.random() - 0.5) * 100,
+      z: (Math.random() - 0.5) * 50,
     };
     
-    setScene(prev => ({
+    commit(`Add ${typeLabel(type)}`, prev => {
+      const newObject: SceneObject = {
+        id,
+        name: `${typeLabel(type)} ${prev.objects.length + 1}`,
+        type,
+        position,
+        rotation: { x: 0, y: 0, z: 0 },
+        scale: { x: 1, y: 1, z: 1 },
+        material,
+        visible: true,
+        locked: false,
+      };
+      
+      return {
+        ...prev,
+        objects: [...prev.objects, newObject],
+        selectedObjectId: id,
+        selectedLightId: null,
+      };
+    });
+  }, [commit]);
+  
+  // Add prepared objects in one step (e.g. from an imported model)
+  const addObjects = useCallback((objects: SceneObject[], label: string) => {
+    if (objects.length === 0) return;
+    
+    commit(label, prev => ({
       ...prev,
-      objects: [...prev.objects, newObject],
-      selectedObjectId: id,
+      objects: [...prev.objects, ...objects],
+      selectedObjectId: objects[0].id,
+      selectedLightId: null,
     }));
-  }, [scene.objects.length]);
+  }, [commit]);
   
   // Update object
   const updateObject = useCallback((id: string, updates: Partial<SceneObject>) => {
-    setScene(prev => ({
-      ...prev,
-      objects: prev.objects.map(obj =>
-        obj.id === id ? { ...obj, ...updates } : obj
-      ),
-    }));
-  }, []);
+    // Field edits (typing, dragging sliders) coalesce; toggles are discrete steps
+    const isToggle = 'visible' in updates || 'locked' in updates || 'shading' in updates;
+    
+    commit(
+      prev => `Edit ${objectName(prev, id)}`,
+      prev => ({
+        ...prev,
+        objects: prev.objects.map(obj =>
+          obj.id === id ? { ...obj, ...updates } : obj
+        ),
+      }),
+      isToggle ? undefined : prev => `update:${id}:${editedFields(prev, id, updates)}`
+    );
+  }, [commit]);
   
   // Apply transform (for tools)
   const applyTransform = useCallback((id: string, delta: TransformDelta) => {
-    setScene(prev => ({
-      ...prev,
-      objects: prev.objects.map(obj => {
-        if (obj.id !== id || obj.locked) return obj;
+    const verb = delta.position ? 'Move' : delta.rotation ? 'Rotate' : 'Scale';
+    
+    commit(prev => `${verb} ${objectName(prev, id)}`, prev => {
+      // Locked or missing targets leave the scene untouched (no history entry)
+      const target = prev.objects.find(obj => obj.id === id);
+      if (!target || target.locked) return prev;
+
+      return {
+        ...prev,
+        objects: prev.objects.map(obj => {
+          if (obj.id !== id) return obj;
         
-        return {
-          ...obj,
-          position: delta.position
-            ? {
-                x: obj.position.x + delta.position.x,
-                y: obj.position.y + delta.position.y,
-                z: obj.position.z + delta.position.z,
-              }
-            : obj.position,
-          rotation: delta.rotation
-            ? {
-                x: obj.rotation.x + delta.rotation.x,
-                y: obj.rotation.y + delta.rotation.y,
-                z: obj.rotation.z + delta.rotation.z,
-              }
-            : obj.rotation,
-          scale: delta.scale
-            ? {
-                x: obj.scale.x * delta.scale.x,
-                y: obj.scale.y * delta.scale.y,
-                z: obj.scale.z * delta.scale.z,
-              }
-            : obj.scale,
-        };
-      }),
-    }));
-  }, []);
+          return {
+            ...obj,
+            position: delta.position
+              ? {
+                  x: obj.position.x + delta.position.x,
+                  y: obj.position.y + delta.position.y,
+                  z: obj.position.z + delta.position.z,
+                }
+              : obj.position,
+            rotation: delta.rotation
+              ? {
+                  x: obj.rotation.x + delta.rotation.x,
+                  y: obj.rotation.y + delta.rotation.y,
+                  z: obj.rotation.z + delta.rotation.z,
+                }
+              : obj.rotation,
+            scale: delta.scale
+              ? {
+                  x: obj.scale.x * delta.scale.x,
+                  y: obj.scale.y * delta.scale.y,
+                  z: obj.scale.z * delta.scale.z,
+                }
+              : obj.scale,
+          };
+        }),
+      };
+    }, `transform:${id}:${verb}`);
+  }, [commit]);
   
   // Delete object
   const deleteObject = useCallback((id: string) => {
-    setScene(prev => ({
+    commit(prev => `Delete ${objectName(prev, id)}`, prev => ({
       ...prev,
       objects: prev.objects.filter(obj => obj.id !== id),
       selectedObjectId: prev.selectedObjectId === id ? null : prev.selectedObjectId,
     }));
-  }, []);
+  }, [commit]);
   
-  // Camera controls
-  const rotateCamera = useCallback((rotation: Vector3) => {
-    setScene(prev => ({
+  // Add a light of any type
+  const addLight = useCallback((type: LightType) => {
+    const id = `${type}-light-${Date.now()}`;
+    const label = lightTypeLabels[type];
+    
+    commit(`Add ${label}`, prev => {
+      const count = prev.lights.filter(light => light.type === type).length;
+      return {
+        ...prev,
+        lights: [...prev.lights, createLight(type, id, `${label} ${count + 1}`)],
+        selectedObjectId: null,
+        selectedLightId: id,
+      };
+    });
+  }, [commit]);
+  
+  // Update light
+  const updateLight = useCallback((id: string, updates: Partial<Light>) => {
+    // Switching type is a discrete step
+    const isToggle = 'type' in updates;
+    
+    commit(
+      prev => `Edit ${findLightName(prev, id)}`,
+      prev => ({
+        ...prev,
+        lights: prev.lights.map(light =>
+          light.id === id ? { ...light, ...updates } : light
+        ),
+      }),
+      isToggle ? undefined : `light:${id}:${Object.keys(updates).sort().join(',')}`
+    );
+  }, [commit]);
+  
+  // Drag a point or spot light (move tool)
+  const moveLight = useCallback((id: string, delta: Vector3) => {
+    commit(prev => `Move ${findLightName(prev, id)}`, prev => ({
       ...prev,
-      camera: {
-        ...prev.camera,
-        rotation: {
-          x: Math.max(-Math.PI / 2 + 0.1, Math.min(Math.PI / 2 - 0.1, rotation.x)),
-          y: rotation.y,
-          z: rotation.z,
-        },
-      },
+      lights: prev.lights.map(light => {
+        if (light.id !== id || !light.position) return light;
+        return {
+          ...light,
+          position: {
+            x: light.position.x + delta.x,
+            y: light.position.y + delta.y,
+            z: light.position.z + delta.z,
+          },
+        };
+      }),
+    }), `transform:${id}:Move`);
+  }, [commit]);
+  
+  // Delete light
+  const deleteLight = useCallback((id: string) => {
+    commit(prev => `Delete ${findLightName(prev, id)}`, prev => ({
+      ...prev,
+      lights: prev.lights.filter(light => light.id !== id),
+      selectedLightId: prev.selectedLightId === id ? null : prev.selectedLightId,
     }));
-  }, []);
+  }, [commit]);
+  
+  // Camera controls; `projection` switches mode in the same step (leaving an axis view)
+  const rotateCamera = useCallback((rotation: Vector3, projection?: ProjectionMode) => {
+    commit('Orbit Camera', prev => ({
+      ...prev,
+      camera: applyOrbit(prev.camera, rotation, projection),
+    }), 'camera:orbit');
+  }, [commit]);
   
   const panCamera = useCallback((offset: Vector3) => {
-    setScene(prev => ({
+    commit('Pan Camera', prev => ({
       ...prev,
-      camera: {
-        ...prev.camera,
-        position: {
-          x: prev.camera.position.x + offset.x,
-          y: prev.camera.position.y + offset.y,
-          z: prev.camera.position.z + offset.z,
-        },
-      },
-    }));
-  }, []);
+      camera: applyPan(prev.camera, offset),
+    }), 'camera:pan');
+  }, [commit]);
   
   const zoomCamera = useCallback((delta: number) => {
-    setScene(prev => ({
+    commit('Zoom Camera', prev => ({
       ...prev,
-      camera: {
-        ...prev.camera,
-        position: {
-          ...prev.camera.position,
-          z: Math.max(100, Math.min(2000, prev.camera.position.z + delta)),
-        },
-      },
-    }));
-  }, []);
+      camera: applyZoom(prev.camera, delta),
+    }), 'camera:zoom');
+  }, [commit]);
   
   // Move 3D cursor
   const moveCursor3D = useCallback((position: Vector3) => {
-    setScene(prev => ({
+    commit('Move 3D Cursor', prev => ({
       ...prev,
       cursor3D: position,
-    }));
-  }, []);
+    }), 'cursor3D');
+  }, [commit]);
   
   // Toggle grid
   const toggleGrid = useCallback(() => {
@@ -267,7 +417,7 @@ export const useScene = () => {
       ...prev,
       gridVisible: !prev.gridVisible,
     }));
-  }, []);
+  }, [setScene]);
   
   // Toggle axis
   const toggleAxis = useCallback(() => {
@@ -275,40 +425,132 @@ export const useScene = () => {
       ...prev,
       axisVisible: !prev.axisVisible,
     }));
-  }, []);
+  }, [setScene]);
   
-  // Set lighting mode
-  const setLightingMode = useCallback((mode: 'day' | 'night') => {
-    setScene(prev => ({
+  // Replace every light with a preset's rig
+  const applyLightingPreset = useCallback((preset: LightingPreset) => {
+    commit(`Lighting: ${preset.name}`, prev => ({
       ...prev,
-      lightingMode: mode,
-      lights: getLightsForMode(mode),
+      lightingMode: preset.id,
+      lights: preset.lights,
+      selectedLightId: preset.lights.some(light => light.id === prev.selectedLightId)
+        ? prev.selectedLightId
+        : null,
     }));
-  }, []);
+  }, [commit]);
+  
+  // Edit the scene's fog, starting from the defaults when it has none
+  const updateFog = useCallback((updates: Partial<FogSettings>) => {
+    // Switches are discrete steps; sliders and the color picker coalesce
+    const isToggle = 'enabled' in updates || 'mode' in updates || 'thinStrokes' in updates;
+
+    commit(
+      'Edit Fog',
+      prev => ({
+        ...prev,
+        fog: { ...(prev.fog ?? DEFAULT_FOG_SETTINGS), ...updates },
+      }),
+      isToggle ? undefined : `fog:${Object.keys(updates).sort().join(',')}`
+    );
+  }, [commit]);
+  
+  // Snap to an axis view or back to perspective
+  const setCameraView = useCallback((preset: CameraPreset) => {
+    const label = preset.charAt(0).toUpperCase() + preset.slice(1);
+    commit(`${label} View`, prev => ({
+      ...prev,
+      camera: applyViewPreset(prev.camera, preset),
+    }));
+  }, [commit]);
+  
+  const setProjection = useCallback((projection: ProjectionMode) => {
+    commit(projection === 'orthographic' ? 'Orthographic' : 'Perspective', prev => ({
+      ...prev,
+      camera: { ...prev.camera, projection },
+    }));
+  }, [commit]);
   
   // Reset camera
   const resetCamera = useCallback(() => {
-    setScene(prev => ({
+    commit('Reset Camera', prev => ({
       ...prev,
       camera: defaultCamera,
     }));
+  }, [commit]);
+  
+  // Replace the whole scene (e.g. from an opened scene file); starts a fresh history
+  const loadScene = useCallback((next: Scene) => {
+    setState({
+      scene: {
+        ...next,
+        selectedObjectId: null,
+        selectedLightId: null,
+      },
+      history: createHistory(),
+    });
+  }, []);
+  
+  // History
+  const undo = useCallback(() => {
+    setState(prev => undoChange(prev.scene, prev.history));
+  }, []);
+  
+  const redo = useCallback(() => {
+    setState(prev => redoChange(prev.scene, prev.history));
+  }, []);
+  
+  // Jump so that exactly `index` history entries are applied (0 = initial state)
+  const jumpToHistory = useCallback((index: number) => {
+    setState(prev => jumpToIndex(prev.scene, prev.history, index));
   }, []);
   
+  // End a continuous interaction (drag, wheel) so the next change starts a new entry
+  const sealHistoryEntry = useCallback(() => {
+    setState(prev => {
+      const sealed = sealHistory(prev.history);
+      return sealed === prev.history ? prev : { ...prev, history: sealed };
+    });
+  }, []);
+  
+  const historyEntries = useMemo(
+    () => [...history.past, ...history.future].map(entry => ({ id: entry.id, label: entry.label })),
+    [history.past, history.future]
+  );
+  
   return {
     scene,
     selectedObject,
     selectObject,
     addObject,
+    addObjects,
     updateObject,
     applyTransform,
     deleteObject,
+    selectedLight,
+    selectLight,
+    addLight,
+    updateLight,
+    moveLight,
+    deleteLight,
     rotateCamera,
     panCamera,
     zoomCamera,
+    setCameraView,
+    setProjection,
     moveCursor3D,
     toggleGrid,
     toggleAxis,
-    setLightingMode,
+    applyLightingPreset,
+    updateFog,
     resetCamera,
+    loadScene,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    historyEntries,
+    historyIndex: history.past.length,
+    jumpToHistory,
+    sealHistoryEntry,
   };
 };
@@ -0,0 +1,105 @@
+import { useState, useCallback } from 'react';
+import {
+  Vector3,
+  CameraPreset,
+  ProjectionMode,
+  RenderMode,
+  ViewportLayout,
+  ViewportView,
+} from '@/types/engine';
+import {
+  defaultCamera,
+  applyOrbit,
+  applyPan,
+  applyZoom,
+  applyViewPreset,
+} from '@/lib/camera';
+
+// The main pane shows the scene camera (saved with the scene and undoable)
+export const MAIN_VIEWPORT_ID = 'main';
+
+// Pane ids per layout, in reading order
+const layoutPanes: Record<ViewportLayout, string[]> = {
+  single: [MAIN_VIEWPORT_ID],
+  split: [MAIN_VIEWPORT_ID, 'front'],
+  quad: ['top', MAIN_VIEWPORT_ID, 'front', 'right'],
+};
+
+export interface ViewActions {
+  orbit: (rotation: Vector3) => void;
+  pan: (offset: Vector3) => void;
+  zoom: (delta: number) => void;
+  setPreset: (preset: CameraPreset) => void;
+  setProjection: (projection: ProjectionMode) => void;
+  setRenderMode: (mode: RenderMode) => void;
+  toggleGrid: () => void;
+}
+
+const axisView = (preset: Exclude<CameraPreset, 'perspective'>): ViewportView => ({
+  camera: applyViewPreset(defaultCamera, preset),
+  preset,
+  renderMode: 'wireframe',
+  gridVisible: true,
+});
+
+// Layout, focus and the secondary panes' own view state
+export const useViewports = (main: { view: ViewportView; actions: ViewActions }) => {
+  const [layout, setLayoutState] = useState<ViewportLayout>('single');
+  const [activeId, setActiveId] = useState(MAIN_VIEWPORT_ID);
+  const [maximizedId, setMaximizedId] = useState<string | null>(null);
+  const [views, setViews] = useState<Record<string, ViewportView>>(() => ({
+    top: axisView('top'),
+    front: axisView('front'),
+    right: axisView('right'),
+  }));
+
+  const setLayout = useCallback((next: ViewportLayout) => {
+    setLayoutState(next);
+    setMaximizedId(null);
+    setActiveId(prev => (layoutPanes[next].includes(prev) ? prev : MAIN_VIEWPORT_ID));
+  }, []);
+
+  // Maximize a pane (the focused one by default), or restore the layout
+  const toggleMaximize = useCallback((id?: string) => {
+    if (layout === 'single') return;
+    setMaximizedId(prev => (prev ? null : id ?? activeId));
+  }, [layout, activeId]);
+
+  const updateView = useCallback((id: string, recipe: (view: ViewportView) => ViewportView) => {
+    setViews(prev => ({ ...prev, [id]: recipe(prev[id]) }));
+  }, []);
+
+  const viewFor = (id: string): ViewportView => (id === MAIN_VIEWPORT_ID ? main.view : views[id]);
+
+  const actionsFor = (id: string): ViewActions => {
+    if (id === MAIN_VIEWPORT_ID) return main.actions;
+    return {
+      // Orbiting out of an axis view returns to perspective
+      orbit: rotation => updateView(id, v => v.preset === 'perspective'
+        ? { ...v, camera: applyOrbit(v.camera, rotation) }
+        : { ...v, preset: 'perspective', camera: applyOrbit(v.camera, rotation, 'perspective') }),
+      pan: offset => updateView(id, v => ({ ...v, camera: applyPan(v.camera, offset) })),
+      zoom: delta => updateView(id, v => ({ ...v, camera: applyZoom(v.camera, delta) })),
+      setPreset: preset => updateView(id, v => ({ ...v, preset, camera: applyViewPreset(v.camera, preset) })),
+      setProjection: projection => updateView(id, v => ({
+        ...v,
+        preset: projection === 'perspective' ? 'perspective' : v.preset,
+        camera: { ...v.camera, projection },
+      })),
+      setRenderMode: renderMode => updateView(id, v => ({ ...v, renderMode })),
+      toggleGrid: () => updateView(id, v => ({ ...v, gridVisible: !v.gridVisible })),
+    };
+  };
+
+  return {
+    layout,
+    setLayout,
+    paneIds: maximizedId ? [maximizedId] : layoutPanes[layout],
+    activeId,
+    setActiveId,
+    maximizedId,
+    toggleMaximize,
+    viewFor,
+    actionsFor,
+  };
+};
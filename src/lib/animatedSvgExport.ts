@@ -0,0 +1,237 @@
+import { Scene, EngineConfig, ProjectedFace, Vector2 } from '@/types/engine';
+import { renderScene } from '@/lib/renderer';
+import { formatNumber, toHexColor, escapeAttr } from '@/lib/svgExport';
+
+export type AnimatedSvgFormat = 'smil' | 'css';
+
+// Animated SVG export options
+export interface AnimatedSvgExportOptions {
+  width: number;
+  height: number;
+  precision: number;
+  background: string | null;
+  format: AnimatedSvgFormat;
+  fps: number;
+  startFrame: number;
+  endFrame: number;
+  // Sample every Nth timeline frame
+  frameStep: number;
+  loop: boolean;
+}
+
+export const defaultAnimatedSvgExportOptions: AnimatedSvgExportOptions = {
+  width: 1200,
+  height: 700,
+  precision: 1,
+  background: '#0a0a0a',
+  format: 'smil',
+  fps: 24,
+  startFrame: 0,
+  endFrame: 119,
+  frameStep: 2,
+  loop: true,
+};
+
+// One exported path: a face followed across frames by object id + face index
+interface FaceTrack {
+  key: string;
+  // Per sampled frame; null where the face is culled or absent
+  frames: ({ verts: Vector2[]; color: string; depth: number } | null)[];
+}
+
+// Scene for a given timeline frame; lets keyframed transforms plug in
+export type SceneAtFrame = (frame: number) => Scene;
+
+// Sample renderScene over the frame range and group faces by stable identity
+const sampleTracks = (
+  sceneAtFrame: SceneAtFrame,
+  config: EngineConfig,
+  options: AnimatedSvgExportOptions,
+  frames: number[]
+): FaceTrack[] => {
+  const tracks = new Map<string, FaceTrack>();
+
+  frames.forEach((frame, sampleIndex) => {
+    // BSP splitting would break one-path-per-face tracks; order is fixed below anyway
+    const faces: ProjectedFace[] = renderScene(
+      sceneAtFrame(frame),
+      { ...config, sortMode: 'painter' },
+      options.width,
+      options.height,
+      frame / options.fps
+    );
+
+    for (const face of faces) {
+      const key = `${face.objectId ?? 'unknown'}:${face.faceIndex ?? 0}`;
+      let track = tracks.get(key);
+      if (!track) {
+        track = { key, frames: new Array(frames.length).fill(null) };
+        tracks.set(key, track);
+      }
+      track.frames[sampleIndex] = {
+        verts: face.projectedVerts,
+        color: toHexColor(face.color),
+        depth: face.depth,
+      };
+    }
+  });
+
+  // Fixed document order: back to front by mean depth over visible frames
+  const meanDepth = (track: FaceTrack) => {
+    const visible = track.frames.filter(f => f !== null);
+    return visible.reduce((sum, f) => sum + f!.depth, 0) / visible.length;
+  };
+
+  return [...tracks.values()].sort((a, b) => meanDepth(b) - meanDepth(a));
+};
+
+// Path data with a fixed vertex count so `d` values can interpolate
+const paddedPath = (verts: Vector2[], count: number, precision: number): string => {
+  const points: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = verts[Math.min(i, verts.length - 1)];
+    points.push(`${formatNumber(v.x, precision)} ${formatNumber(v.y, precision)}`);
+  }
+  return `M${points[0]}L${points.slice(1).join(' ')}Z`;
+};
+
+// Per-frame path/fill/visibility values; hidden frames hold the nearest shape
+const trackValues = (track: FaceTrack, precision: number) => {
+  const vertCount = Math.max(...track.frames.map(f => f?.verts.length ?? 0));
+  const firstVisible = track.frames.find(f => f !== null)!;
+
+  let held = firstVisible;
+  const d: string[] = [];
+  const fill: string[] = [];
+  const visibility: string[] = [];
+
+  for (const frame of track.frames) {
+    if (frame) held = frame;
+    d.push(paddedPath(held.verts, vertCount, precision));
+    fill.push(held.color);
+    visibility.push(frame ? 'visible' : 'hidden');
+  }
+
+  return { d, fill, visibility };
+};
+
+const allEqual = (values: string[]) => values.every(v => v === values[0]);
+
+// Close the loop by returning to the first frame at the end of the cycle
+const cycle = (values: string[], loop: boolean) => (loop ? [...values, values[0]] : values);
+
+const smilTrack = (track: FaceTrack, options: AnimatedSvgExportOptions, dur: string): string => {
+  const { d, fill, visibility } = trackValues(track, options.precision);
+  const repeat = options.loop ? 'indefinite' : '1';
+  const fillMode = options.loop ? '' : ' fill="freeze"';
+  const animations: string[] = [];
+
+  if (!allEqual(d)) {
+    animations.push(
+      `<animate attributeName="d" dur="${dur}" repeatCount="${repeat}"${fillMode} values="${cycle(d, options.loop).join(';')}"/>`
+    );
+  }
+  if (!allEqual(fill)) {
+    animations.push(
+      `<animate attributeName="fill" dur="${dur}" repeatCount="${repeat}"${fillMode} values="${cycle(fill, options.loop).join(';')}"/>`
+    );
+  }
+  if (!allEqual(visibility)) {
+    animations.push(
+      `<animate attributeName="visibility" calcMode="discrete" dur="${dur}" repeatCount="${repeat}"${fillMode} values="${cycle(visibility, options.loop).join(';')}"/>`
+    );
+  }
+
+  const initial = `d="${d[0]}" fill="${escapeAttr(fill[0])}"${visibility[0] === 'hidden' ? ' visibility="hidden"' : ''}`;
+  return animations.length === 0
+    ? `<path ${initial}/>`
+    : `<path ${initial}>${animations.join('')}</path>`;
+};
+
+const cssTrack = (
+  track: FaceTrack,
+  index: number,
+  options: AnimatedSvgExportOptions,
+  dur: string
+): { element: string; css: string } => {
+  const { d, fill, visibility } = trackValues(track, options.precision);
+  const initial = `d="${d[0]}" fill="${escapeAttr(fill[0])}"${visibility[0] === 'hidden' ? ' visibility="hidden"' : ''}`;
+
+  if (allEqual(d) && allEqual(fill) && allEqual(visibility)) {
+    return { element: `<path ${initial}/>`, css: '' };
+  }
+
+  const name = `f${index}`;
+  const values = {
+    d: cycle(d, options.loop),
+    fill: cycle(fill, options.loop),
+    visibility: cycle(visibility, options.loop),
+  };
+  const steps = values.d.length - 1;
+
+  const keyframes = values.d.map((_, i) => {
+    const pct = steps === 0 ? 0 : (i / steps) * 100;
+    return `${formatNumber(pct, 2)}%{d:path("${values.d[i]}");fill:${values.fill[i]};visibility:${values.visibility[i]}}`;
+  });
+
+  const iteration = options.loop ? 'infinite' : '1';
+  return {
+    element: `<path class="${name}" ${initial}/>`,
+    css:
+      `@keyframes ${name}{${keyframes.join('')}}\n` +
+      `.${name}{animation:${name} ${dur} linear ${iteration} both}`,
+  };
+};
+
+// Frames sampled for the export, inclusive of the end frame
+export const sampledFrames = (options: AnimatedSvgExportOptions): number[] => {
+  const frames: number[] = [];
+  const step = Math.max(1, Math.floor(options.frameStep));
+  for (let f = options.startFrame; f <= options.endFrame; f += step) {
+    frames.push(f);
+  }
+  return frames;
+};
+
+// Sample the timeline and emit an animated SVG document
+export const exportAnimatedSvg = (
+  sceneAtFrame: SceneAtFrame,
+  config: EngineConfig,
+  options: AnimatedSvgExportOptions
+): string => {
+  const frames = sampledFrames(options);
+  if (frames.length === 0) {
+    throw new Error('Animated export needs at least one frame (check the frame range)');
+  }
+
+  const tracks = sampleTracks(sceneAtFrame, config, options, frames);
+  const frameSpan = (frames.length - (options.loop ? 0 : 1)) * Math.max(1, Math.floor(options.frameStep));
+  const dur = `${formatNumber(Math.max(frameSpan, 1) / options.fps, 3)}s`;
+  const { width, height } = options;
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ];
+
+  if (options.format === 'css') {
+    const rendered = tracks.map((track, i) => cssTrack(track, i, options, dur));
+    const css = rendered.map(r => r.css).filter(Boolean).join('\n');
+    if (css) lines.push(`<style>\n${css}\n</style>`);
+    if (options.background) {
+      lines.push(`<rect width="${width}" height="${height}" fill="${escapeAttr(options.background)}"/>`);
+    }
+    lines.push('<g id="faces" stroke-linejoin="round">');
+    lines.push(...rendered.map(r => r.element));
+  } else {
+    if (options.background) {
+      lines.push(`<rect width="${width}" height="${height}" fill="${escapeAttr(options.background)}"/>`);
+    }
+    lines.push('<g id="faces" stroke-linejoin="round">');
+    lines.push(...tracks.map(track => smilTrack(track, options, dur)));
+  }
+
+  lines.push('</g>');
+  lines.push('</svg>');
+  return lines.join('\n');
+};
@@ -0,0 +1,218 @@
+import { Vector3, Vector2, ProjectedFace } from '@/types/engine';
+import { calculateCenter, dot, normalize } from '@/lib/math';
+
+// Distance below which a vertex counts as lying on a splitting plane
+const PLANE_EPSILON = 0.01;
+
+// How many candidate splitters to score per node
+const SPLITTER_CANDIDATES = 5;
+
+interface Plane {
+  normal: Vector3;
+  d: number;
+}
+
+interface BspNode {
+  plane: Plane;
+  faces: ProjectedFace[];
+  front: BspNode | null;
+  back: BspNode | null;
+}
+
+// Newell's method: robust plane normal for (possibly non-planar) n-gons
+const polygonPlane = (verts: Vector3[]): Plane => {
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    nx += (a.y - b.y) * (a.z + b.z);
+    ny += (a.z - b.z) * (a.x + b.x);
+    nz += (a.x - b.x) * (a.y + b.y);
+  }
+  const normal = normalize({ x: nx, y: ny, z: nz });
+  return { normal, d: -dot(normal, calculateCenter(verts)) };
+};
+
+const signedDistance = (plane: Plane, v: Vector3) => dot(plane.normal, v) + plane.d;
+
+type Side = 'front' | 'back' | 'coplanar' | 'spanning';
+
+const classify = (plane: Plane, verts: Vector3[]): { side: Side; distances: number[] } => {
+  let front = 0;
+  let back = 0;
+  const distances = verts.map(v => {
+    const dist = signedDistance(plane, v);
+    if (dist > PLANE_EPSILON) front++;
+    else if (dist < -PLANE_EPSILON) back++;
+    return dist;
+  });
+
+  if (front > 0 && back > 0) return { side: 'spanning', distances };
+  if (front > 0) return { side: 'front', distances };
+  if (back > 0) return { side: 'back', distances };
+  return { side: 'coplanar', distances };
+};
+
+// Split a polygon by a plane into front and back pieces
+const splitVerts = (
+  verts: Vector3[],
+  distances: number[]
+): { front: Vector3[]; back: Vector3[] } => {
+  const front: Vector3[] = [];
+  const back: Vector3[] = [];
+
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    const da = distances[i];
+    const db = distances[(i + 1) % verts.length];
+
+    if (da >= -PLANE_EPSILON) front.push(a);
+    if (da <= PLANE_EPSILON) back.push(a);
+
+    // Edge crosses the plane strictly: add the intersection to both sides
+    if ((da > PLANE_EPSILON && db < -PLANE_EPSILON) || (da < -PLANE_EPSILON && db > PLANE_EPSILON)) {
+      const t = da / (da - db);
+      const hit = {
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        z: a.z + (b.z - a.z) * t,
+      };
+      front.push(hit);
+      back.push(hit);
+    }
+  }
+
+  return { front, back };
+};
+
+// Pick the candidate that causes the fewest splits while keeping the tree balanced
+const chooseSplitter = (faces: ProjectedFace[]): number => {
+  if (faces.length <= 2) return 0;
+
+  const step = Math.max(1, Math.floor(faces.length / SPLITTER_CANDIDATES));
+  let best = 0;
+  let bestScore = Infinity;
+
+  for (let c = 0; c < faces.length; c += step) {
+    const plane = polygonPlane(faces[c].verts);
+    let splits = 0;
+    let front = 0;
+    let back = 0;
+    for (let i = 0; i < faces.length; i++) {
+      if (i === c) continue;
+      const { side } = classify(plane, faces[i].verts);
+      if (side === 'spanning') splits++;
+      else if (side === 'front') front++;
+      else if (side === 'back') back++;
+    }
+    const score = splits * 8 + Math.abs(front - back);
+    if (score < bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+
+  return best;
+};
+
+// Build the tree iteratively; convex meshes otherwise recurse once per face
+const buildTree = (faces: ProjectedFace[]): { root: BspNode | null; splits: number } => {
+  if (faces.length === 0) return { root: null, splits: 0 };
+
+  let splits = 0;
+  const stack: { node: BspNode; pending: ProjectedFace[] }[] = [];
+
+  const makeNode = (list: ProjectedFace[]): BspNode => {
+    const index = chooseSplitter(list);
+    const node: BspNode = {
+      plane: polygonPlane(list[index].verts),
+      faces: [list[index]],
+      front: null,
+      back: null,
+    };
+    stack.push({ node, pending: list.filter((_, i) => i !== index) });
+    return node;
+  };
+
+  const root = makeNode(faces);
+
+  while (stack.length > 0) {
+    const { node, pending } = stack.pop()!;
+    const frontList: ProjectedFace[] = [];
+    const backList: ProjectedFace[] = [];
+
+    for (const face of pending) {
+      const { side, distances } = classify(node.plane, face.verts);
+      if (side === 'coplanar') {
+        node.faces.push(face);
+      } else if (side === 'front') {
+        frontList.push(face);
+      } else if (side === 'back') {
+        backList.push(face);
+      } else {
+        const pieces = splitVerts(face.verts, distances);
+        splits++;
+        if (pieces.front.length >= 3) frontList.push({ ...face, verts: pieces.front });
+        if (pieces.back.length >= 3) backList.push({ ...face, verts: pieces.back });
+      }
+    }
+
+    if (frontList.length > 0) node.front = makeNode(frontList);
+    if (backList.length > 0) node.back = makeNode(backList);
+  }
+
+  return { root, splits };
+};
+
+// Back-to-front traversal for a viewer at `eye`
+const traverse = (root: BspNode | null, eye: Vector3): ProjectedFace[] => {
+  const ordered: ProjectedFace[] = [];
+  const stack: (BspNode | ProjectedFace[])[] = root ? [root] : [];
+
+  while (stack.length > 0) {
+    const item = stack.pop()!;
+    if (Array.isArray(item)) {
+      ordered.push(...item);
+      continue;
+    }
+
+    const eyeInFront = signedDistance(item.plane, eye) > 0;
+    const near = eyeInFront ? item.front : item.back;
+    const far = eyeInFront ? item.back : item.front;
+
+    // Stack is LIFO: push in reverse paint order (far, node, near)
+    if (near) stack.push(near);
+    stack.push(item.faces);
+    if (far) stack.push(far);
+  }
+
+  return ordered;
+};
+
+// Order faces with a BSP tree, splitting intersecting polygons, and reproject
+// any split pieces. Faces must carry camera-space `verts`.
+export const sortFacesBsp = (
+  faces: ProjectedFace[],
+  eye: Vector3,
+  projectVert: (v: Vector3) => Vector2
+): { faces: ProjectedFace[]; splits: number } => {
+  const { root, splits } = buildTree(faces);
+  const ordered = traverse(root, eye);
+  const originals = new Set(faces);
+
+  return {
+    faces: ordered.map(face => {
+      // Untouched faces keep their projection
+      if (originals.has(face)) return face;
+      return {
+        ...face,
+        projectedVerts: face.verts.map(projectVert),
+        depth: calculateCenter(face.verts).z,
+      };
+    }),
+    splits,
+  };
+};
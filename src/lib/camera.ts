@@ -0,0 +1,64 @@
+import { Camera, CameraPreset, ProjectionMode, Vector3 } from '@/types/engine';
+
+// Default camera
+export const defaultCamera: Camera = {
+  position: { x: 0, y: 0, z: 500 },
+  rotation: { x: 0.4, y: -0.5, z: 0 },
+  fov: 800,
+  near: 1,
+  far: 5000,
+  projection: 'perspective',
+};
+
+// Camera rotations for the axis-aligned views
+export const axisViewRotations: Record<Exclude<CameraPreset, 'perspective'>, Vector3> = {
+  front: { x: 0, y: 0, z: 0 },
+  back: { x: 0, y: Math.PI, z: 0 },
+  top: { x: -Math.PI / 2, y: 0, z: 0 },
+  left: { x: 0, y: -Math.PI / 2, z: 0 },
+  right: { x: 0, y: Math.PI / 2, z: 0 },
+};
+
+// Orbit to an absolute rotation; pitch stays short of the poles
+export const applyOrbit = (
+  camera: Camera,
+  rotation: Vector3,
+  projection?: ProjectionMode
+): Camera => ({
+  ...camera,
+  projection: projection ?? camera.projection,
+  rotation: {
+    x: Math.max(-Math.PI / 2 + 0.1, Math.min(Math.PI / 2 - 0.1, rotation.x)),
+    y: rotation.y,
+    z: rotation.z,
+  },
+});
+
+export const applyPan = (camera: Camera, offset: Vector3): Camera => ({
+  ...camera,
+  position: {
+    x: camera.position.x + offset.x,
+    y: camera.position.y + offset.y,
+    z: camera.position.z + offset.z,
+  },
+});
+
+export const applyZoom = (camera: Camera, delta: number): Camera => ({
+  ...camera,
+  position: {
+    ...camera.position,
+    z: Math.max(100, Math.min(2000, camera.position.z + delta)),
+  },
+});
+
+// Snap to an axis view in orthographic, or back to perspective keeping the angle
+export const applyViewPreset = (camera: Camera, preset: CameraPreset): Camera =>
+  preset === 'perspective'
+    ? { ...camera, projection: 'perspective' }
+    : { ...camera, projection: 'orthographic', rotation: axisViewRotations[preset] };
+
+// Display name for a view, e.g. "Top" or "User Ortho"
+export const viewLabel = (camera: Camera, preset: CameraPreset): string => {
+  if (preset !== 'perspective') return preset.charAt(0).toUpperCase() + preset.slice(1);
+  return camera.projection === 'orthographic' ? 'User Ortho' : 'Perspective';
+};
@@ -0,0 +1,303 @@
+import {
+  ProjectedFace,
+  ShadowShape,
+  EdgeSegment,
+  NormalVector,
+  GridLine,
+  RenderMode,
+  Vector2,
+  Vector3,
+} from '@/types/engine';
+import { normalToRgb } from '@/lib/renderer';
+import { unrotateEuler } from '@/lib/math';
+import { SHADOW_BLUR } from '@/lib/shadows';
+import { EDGE_STROKE_WIDTHS, HIDDEN_EDGE_WIDTH, HIDDEN_EDGE_DASH } from '@/lib/hiddenLine';
+import { CREASE_OUTLINE_SCALE } from '@/lib/toon';
+
+// Above this many faces the viewport draws to a canvas instead of one SVG path
+// per face, and returns to SVG below the lower count so it doesn't flip every frame
+export const CANVAS_FACE_THRESHOLD = 4000;
+export const SVG_FACE_THRESHOLD = 3000;
+
+// Theme colors as canvas-ready CSS (a canvas can't resolve `var(--x)`)
+export interface CanvasTheme {
+  background: string;
+  foreground: string;
+  mutedForeground: string;
+  primary: string;
+}
+
+// Everything the SVG viewport draws below the light gizmos
+export interface CanvasScene {
+  faces: ProjectedFace[];
+  renderMode: RenderMode;
+  cameraRotation: Vector3;
+  gridLines: GridLine[];
+  shadows: ShadowShape[];
+  shadowOpacity: number;
+  edgeSegments: EdgeSegment[];
+  showHiddenEdges: boolean;
+  normalVectors: NormalVector[];
+  normalColors: boolean;
+  outlines: EdgeSegment[];
+  outlineWidth: number;
+  outlineColor: string;
+  selectedObjectId?: string | null;
+}
+
+// Theme variables hold bare "H S% L%" triples
+export const readCanvasTheme = (element: Element): CanvasTheme => {
+  const style = getComputedStyle(element);
+  const color = (name: string) => `hsl(${style.getPropertyValue(name).trim().split(/\s+/).join(', ')})`;
+  return {
+    background: color('--background'),
+    foreground: color('--foreground'),
+    mutedForeground: color('--muted-foreground'),
+    primary: color('--primary'),
+  };
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, verts: Vector2[]) => {
+  ctx.beginPath();
+  verts.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+  ctx.closePath();
+};
+
+const strokeSegment = (ctx: CanvasRenderingContext2D, seg: { x1: number; y1: number; x2: number; y2: number }) => {
+  ctx.beginPath();
+  ctx.moveTo(seg.x1, seg.y1);
+  ctx.lineTo(seg.x2, seg.y2);
+  ctx.stroke();
+};
+
+// Selection outline: the SVG view's diagonal gradient and purple glow
+const strokeSelection = (ctx: CanvasRenderingContext2D, face: ProjectedFace) => {
+  const xs = face.projectedVerts.map(v => v.x);
+  const ys = face.projectedVerts.map(v => v.y);
+  const gradient = ctx.createLinearGradient(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+  gradient.addColorStop(0, 'hsl(217, 91%, 60%)');
+  gradient.addColorStop(0.5, 'hsl(280, 100%, 60%)');
+  gradient.addColorStop(1, 'hsl(330, 81%, 60%)');
+
+  ctx.save();
+  ctx.globalAlpha = 0.8;
+  ctx.shadowColor = 'hsla(280, 100%, 60%, 0.4)';
+  ctx.shadowBlur = 10;
+  ctx.strokeStyle = gradient;
+  ctx.lineWidth = 3;
+  tracePolygon(ctx, face.projectedVerts);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawFace = (ctx: CanvasRenderingContext2D, face: ProjectedFace, scene: CanvasScene, theme: CanvasTheme) => {
+  const strokeScale = face.strokeScale ?? 1;
+  tracePolygon(ctx, face.projectedVerts);
+
+  // Hidden-line faces stay invisible; the edge pass draws that mode
+  switch (scene.renderMode) {
+    case 'solid': {
+      let fill: string | CanvasGradient = face.color;
+      if (face.gradient) {
+        const g = face.gradient;
+        fill = ctx.createLinearGradient(g.x1, g.y1, g.x2, g.y2);
+        fill.addColorStop(0, g.from);
+        fill.addColorStop(1, g.to);
+      }
+      ctx.fillStyle = fill;
+      ctx.fill();
+      // Smooth faces stroke with their own gradient to hide seams
+      ctx.strokeStyle = face.gradient ? fill : 'rgba(0, 0, 0, 0.1)';
+      ctx.lineWidth = 0.5 * strokeScale;
+      ctx.stroke();
+      break;
+    }
+    case 'wireframe':
+      ctx.globalAlpha = 0.8;
+      ctx.strokeStyle = theme.primary;
+      ctx.lineWidth = strokeScale;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      break;
+    case 'xray':
+      // Screen blending commutes, so draw order doesn't matter
+      ctx.globalCompositeOperation = 'screen';
+      ctx.fillStyle = face.color;
+      ctx.globalAlpha = face.backFacing ? 0.15 : 0.25;
+      ctx.fill();
+      ctx.strokeStyle = face.color;
+      ctx.globalAlpha = 0.5;
+      ctx.lineWidth = 0.5 * strokeScale;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      ctx.globalCompositeOperation = 'source-over';
+      break;
+    case 'normals':
+      ctx.fillStyle = scene.normalColors && face.normal
+        ? normalToRgb(unrotateEuler(face.normal, scene.cameraRotation))
+        : face.backFacing ? 'rgba(255, 60, 60, 0.25)' : 'rgba(0, 255, 255, 0.1)';
+      ctx.fill();
+      ctx.strokeStyle = face.backFacing ? 'hsl(0, 90%, 60%)' : theme.primary;
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = 0.5 * strokeScale;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      break;
+  }
+
+  if (face.isSelected && scene.renderMode !== 'hiddenLine') strokeSelection(ctx, face);
+};
+
+// Draw a frame in the same order and style as the SVG viewport. The context
+// is in viewport units (scale it for the device pixel ratio beforehand).
+export const drawCanvasScene = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  scene: CanvasScene,
+  theme: CanvasTheme
+) => {
+  const { renderMode, selectedObjectId } = scene;
+  ctx.save();
+
+  // An opaque backdrop so X-Ray's screen blending has the page color to work on
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, width, height);
+
+  // Grid floor with a soft glow
+  ctx.save();
+  ctx.strokeStyle = theme.primary;
+  ctx.shadowColor = theme.primary;
+  ctx.shadowBlur = 2;
+  ctx.lineWidth = 1;
+  for (const line of scene.gridLines) {
+    ctx.globalAlpha = line.opacity;
+    strokeSegment(ctx, line);
+  }
+  ctx.restore();
+
+  // Drop shadows as one blurred fill, so overlaps don't darken
+  if (renderMode === 'solid' && scene.shadows.length > 0) {
+    ctx.save();
+    ctx.globalAlpha = scene.shadowOpacity;
+    ctx.filter = `blur(${SHADOW_BLUR}px)`;
+    ctx.fillStyle = '#000';
+    ctx.beginPath();
+    for (const shape of scene.shadows) {
+      for (const poly of shape.polygons) {
+        poly.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+        ctx.closePath();
+      }
+    }
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Faces back to front (painter's algorithm)
+  for (const face of scene.faces) {
+    if (face.projectedVerts.length > 0) drawFace(ctx, face, scene, theme);
+  }
+
+  ctx.lineCap = 'round';
+
+  // Toon ink over the faces
+  if (renderMode === 'solid') {
+    ctx.strokeStyle = scene.outlineColor;
+    for (const seg of scene.outlines) {
+      const width = seg.kind === 'crease' ? scene.outlineWidth * CREASE_OUTLINE_SCALE : scene.outlineWidth;
+      ctx.lineWidth = width * (seg.strokeScale ?? 1);
+      strokeSegment(ctx, seg);
+    }
+  }
+
+  // Hidden-line edges: occluded runs dashed underneath, then visible by weight
+  if (renderMode === 'hiddenLine') {
+    if (scene.showHiddenEdges) {
+      ctx.save();
+      ctx.globalAlpha = 0.6;
+      ctx.setLineDash(HIDDEN_EDGE_DASH.split(' ').map(Number));
+      for (const seg of scene.edgeSegments) {
+        if (seg.visible) continue;
+        ctx.strokeStyle = seg.objectId === selectedObjectId ? theme.primary : theme.mutedForeground;
+        ctx.lineWidth = HIDDEN_EDGE_WIDTH * (seg.strokeScale ?? 1);
+        strokeSegment(ctx, seg);
+      }
+      ctx.restore();
+    }
+    for (const seg of scene.edgeSegments) {
+      if (!seg.visible) continue;
+      ctx.strokeStyle = seg.objectId === selectedObjectId ? theme.primary : theme.foreground;
+      ctx.lineWidth = EDGE_STROKE_WIDTHS[seg.kind] * (seg.strokeScale ?? 1);
+      strokeSegment(ctx, seg);
+    }
+  }
+
+  // Normal vectors over every face
+  if (renderMode === 'normals') {
+    ctx.lineWidth = 1;
+    for (const n of scene.normalVectors) {
+      const color = n.backFacing ? 'hsl(0, 90%, 60%)' : 'hsl(120, 100%, 50%)';
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      strokeSegment(ctx, n);
+      ctx.beginPath();
+      ctx.arc(n.x2, n.y2, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.restore();
+};
+
+// The picking pass magnifies the area around the cursor so far that one pixel
+// covers 1/PICK_ZOOM of a viewport unit; anti-aliased edges almost never land on it
+const PICK_ZOOM = 256;
+
+// Object under a viewport point, by color-ID picking: each face is drawn in a
+// color encoding its object, with the same hit areas as the SVG view's paths
+// (wireframe faces only along their strokes), and the pixel is read back
+export const pickObjectAt = (
+  faces: ProjectedFace[],
+  renderMode: RenderMode,
+  x: number,
+  y: number
+): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.setTransform(PICK_ZOOM, 0, 0, PICK_ZOOM, -x * PICK_ZOOM, -y * PICK_ZOOM);
+
+  // Color i + 1 stands for objectIds[i]; black is the background
+  const objectIds: string[] = [];
+  const codes = new Map<string, number>();
+
+  for (const face of faces) {
+    if (face.projectedVerts.length === 0) continue;
+    const objectId = face.objectId || 'unknown';
+    let code = codes.get(objectId);
+    if (code === undefined) {
+      code = objectIds.push(objectId);
+      codes.set(objectId, code);
+    }
+    const color = `rgb(${(code >> 16) & 255}, ${(code >> 8) & 255}, ${code & 255})`;
+    const strokeScale = face.strokeScale ?? 1;
+
+    tracePolygon(ctx, face.projectedVerts);
+    if (renderMode !== 'wireframe') {
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+    // Hidden-line faces are clickable fills without a stroke
+    if (renderMode !== 'hiddenLine') {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = renderMode === 'wireframe' ? strokeScale : 0.5 * strokeScale;
+      ctx.stroke();
+    }
+  }
+
+  const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+  if (a < 255) return null;
+  return objectIds[((r << 16) | (g << 8) | b) - 1] ?? null;
+};
@@ -0,0 +1,134 @@
+import { Vector3 } from '@/types/engine';
+
+// View volume in camera space. The eye sits at z = -cameraZ looking toward +z,
+// so a point's viewing distance is `v.z + cameraZ`.
+export interface Frustum {
+  cameraZ: number;
+  near: number;
+  far: number;
+  orthographic: boolean;
+  // Perspective: tan of the half-angles. Orthographic: half-width/height of the view box.
+  extentX: number;
+  extentY: number;
+}
+
+export const createFrustum = (
+  width: number,
+  height: number,
+  fov: number,
+  cameraZ: number,
+  near: number,
+  far: number,
+  orthographic: boolean = false
+): Frustum => {
+  // Matches `project`: pixels per unit is fov / distance, or fov / cameraZ in ortho
+  const unitsPerPixel = orthographic ? cameraZ / fov : 1 / fov;
+  return {
+    cameraZ,
+    near,
+    far,
+    orthographic,
+    extentX: (width / 2) * unitsPerPixel,
+    extentY: (height / 2) * unitsPerPixel,
+  };
+};
+
+// Signed distance along the view axis; positive is inside
+type PlaneTest = (v: Vector3) => number;
+
+const clipAgainstPlane = (verts: Vector3[], inside: PlaneTest): Vector3[] => {
+  const result: Vector3[] = [];
+
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    const da = inside(a);
+    const db = inside(b);
+
+    if (da >= 0) result.push(a);
+
+    // Edge crosses the plane: keep the intersection
+    if ((da >= 0) !== (db >= 0)) {
+      const t = da / (da - db);
+      result.push({
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        z: a.z + (b.z - a.z) * t,
+      });
+    }
+  }
+
+  return result;
+};
+
+// Sutherland–Hodgman against the near and far planes. Side planes are left to
+// the SVG viewport, which already clips in 2D without distorting anything.
+export const clipPolygonToFrustum = (verts: Vector3[], frustum: Frustum): Vector3[] => {
+  const { cameraZ, near, far } = frustum;
+
+  // Fast path: fully inside, which is nearly every face
+  let inside = true;
+  for (const v of verts) {
+    const d = v.z + cameraZ;
+    if (d < near || d > far) {
+      inside = false;
+      break;
+    }
+  }
+  if (inside) return verts;
+
+  let clipped = clipAgainstPlane(verts, v => v.z + cameraZ - near);
+  if (clipped.length < 3) return [];
+  clipped = clipAgainstPlane(clipped, v => far - (v.z + cameraZ));
+  return clipped.length < 3 ? [] : clipped;
+};
+
+// Bounding-sphere test against all six frustum planes
+export const sphereInFrustum = (center: Vector3, radius: number, frustum: Frustum): boolean => {
+  const { cameraZ, near, far, orthographic, extentX, extentY } = frustum;
+  const d = center.z + cameraZ;
+
+  if (d + radius < near || d - radius > far) return false;
+
+  if (orthographic) {
+    return Math.abs(center.x) - extentX <= radius && Math.abs(center.y) - extentY <= radius;
+  }
+
+  // Side planes pass through the eye: |x| = extentX * d, |y| = extentY * d
+  const lenX = Math.sqrt(1 + extentX * extentX);
+  if (Math.abs(center.x) - extentX * d > radius * lenX) return false;
+  const lenY = Math.sqrt(1 + extentY * extentY);
+  if (Math.abs(center.y) - extentY * d > radius * lenY) return false;
+
+  return true;
+};
+
+// Clip a line segment to the near and far planes; null when nothing is left
+export const clipSegmentToFrustum = (
+  a: Vector3,
+  b: Vector3,
+  frustum: Frustum
+): [Vector3, Vector3] | null => {
+  const { cameraZ, near, far } = frustum;
+  let t0 = 0;
+  let t1 = 1;
+
+  for (const inside of [
+    (v: Vector3) => v.z + cameraZ - near,
+    (v: Vector3) => far - (v.z + cameraZ),
+  ]) {
+    const da = inside(a);
+    const db = inside(b);
+    if (da < 0 && db < 0) return null;
+    if (da < 0) t0 = Math.max(t0, da / (da - db));
+    else if (db < 0) t1 = Math.min(t1, da / (da - db));
+  }
+  if (t0 >= t1) return null;
+
+  const lerp = (t: number): Vector3 => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  });
+  return [t0 === 0 ? a : lerp(t0), t1 === 1 ? b : lerp(t1)];
+};
@@ -0,0 +1,34 @@
+// Browser file helpers shared by the scene file and exporters
+
+// How long a download's object URL outlives the click
+const REVOKE_DELAY_MS = 10000;
+
+// Trigger a download of in-memory contents
+export const downloadFile = (
+  contents: BlobPart,
+  filename: string,
+  mimeType: string
+): void => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Some browsers read the blob after click() returns; revoking at once can
+  // leave the download empty, so give them time to start
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Read a user-picked file as text
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
@@ -0,0 +1,37 @@
+import { FogSettings, RgbColor } from '@/types/engine';
+
+export const DEFAULT_FOG_SETTINGS: FogSettings = {
+  enabled: false,
+  mode: 'linear',
+  color: '#0a0a0a',
+  start: 300,
+  end: 1500,
+  halfDistance: 400,
+  thinStrokes: false,
+};
+
+// Stroke width left at full fog when distant strokes are thinned
+const MIN_STROKE_SCALE = 0.2;
+
+// How much fog (0..1) lies between the camera and a point `distance` away along
+// the view axis. Linear ramps from start to end; exponential halves the
+// remaining clear view every `halfDistance` past start.
+export const fogAmount = (fog: FogSettings, distance: number): number => {
+  const past = distance - fog.start;
+  if (past <= 0) return 0;
+  if (fog.mode === 'linear') {
+    return Math.min(1, past / Math.max(fog.end - fog.start, 1e-6));
+  }
+  return 1 - Math.pow(0.5, past / Math.max(fog.halfDistance, 1e-6));
+};
+
+// Blend a color toward the fog color
+export const applyFog = (color: RgbColor, fogColor: RgbColor, amount: number): RgbColor => ({
+  r: color.r + (fogColor.r - color.r) * amount,
+  g: color.g + (fogColor.g - color.g) * amount,
+  b: color.b + (fogColor.b - color.b) * amount,
+});
+
+// Stroke width multiplier for depth cueing; null when strokes keep their width
+export const fogStrokeScale = (fog: FogSettings, amount: number): number | null =>
+  fog.thinStrokes && amount > 0 ? 1 - amount * (1 - MIN_STROKE_SCALE) : null;
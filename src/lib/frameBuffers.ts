@@ -0,0 +1,274 @@
+import {
+  Scene,
+  EngineConfig,
+  ProjectedFace,
+  EdgeKind,
+  EdgeSegment,
+  ShadowShape,
+  RenderStats,
+  Vector2,
+  Vector3,
+} from '@/types/engine';
+import { renderScene } from '@/lib/renderer';
+import { computeEdgeSegments } from '@/lib/hiddenLine';
+import { generateDropShadows } from '@/lib/shadows';
+import { LodMemory } from '@/lib/lod';
+
+// Everything one viewport frame needs computed
+export interface RenderJob {
+  scene: Scene;
+  config: EngineConfig;
+  width: number;
+  height: number;
+  time: number;
+  // Optional passes: hidden-line/outline edges and drop shadows
+  edges: boolean;
+  shadows: boolean;
+}
+
+export interface RenderFrame {
+  faces: ProjectedFace[];
+  edgeSegments: EdgeSegment[];
+  shadows: ShadowShape[];
+  stats: RenderStats;
+}
+
+// `lod` carries level-of-detail choices between frames of the same view
+export const renderFrame = (job: RenderJob, lod?: LodMemory): RenderFrame => {
+  const { scene, config, width, height, time } = job;
+  const stats: RenderStats = { faces: 0, splits: 0, sortMs: 0, cacheHits: 0, cacheMisses: 0 };
+  return {
+    faces: renderScene(scene, config, width, height, time, stats, lod),
+    edgeSegments: job.edges ? computeEdgeSegments(scene, config, width, height, time, lod) : [],
+    shadows: job.shadows ? generateDropShadows(scene, config, width, height, time, lod) : [],
+    stats,
+  };
+};
+
+// A frame flattened into typed arrays so it crosses the worker boundary by
+// transfer instead of a structured clone of thousands of small objects.
+// Strings are stored once in a table and referenced by index.
+export interface PackedFrame {
+  objectIds: string[];
+  colors: string[];
+  // Per face: vertex count, object, color, flags, face index, gradient from/to colors
+  faceInts: Uint32Array;
+  // Per face: depth, light intensity, normal xyz, stroke scale, gradient x1 y1 x2 y2
+  faceFloats: Float32Array;
+  // Per vertex: camera-space xyz, then projected x, y and scale
+  vertices: Float32Array;
+  // Per edge: object, kind and visibility
+  edgeInts: Uint32Array;
+  // Per edge: x1 y1 x2 y2, stroke scale
+  edgeFloats: Float32Array;
+  // Few and small, so these are cloned as is
+  shadows: ShadowShape[];
+  stats: RenderStats;
+}
+
+const FACE_INTS = 7;
+const FACE_FLOATS = 10;
+const VERTEX_FLOATS = 6;
+const EDGE_INTS = 2;
+const EDGE_FLOATS = 5;
+
+// Face flags
+const SELECTED = 1;
+const BACK_FACING = 2;
+const HAS_GRADIENT = 4;
+const HAS_NORMAL = 8;
+const HAS_STROKE_SCALE = 16;
+const HAS_FACE_INDEX = 32;
+const HAS_OBJECT = 64;
+
+const EDGE_KINDS: EdgeKind[] = ['silhouette', 'crease', 'edge'];
+
+// Index of a string in a table, adding it on first use
+const interner = () => {
+  const table: string[] = [];
+  const lookup = new Map<string, number>();
+  const intern = (value: string): number => {
+    let index = lookup.get(value);
+    if (index === undefined) {
+      index = table.length;
+      table.push(value);
+      lookup.set(value, index);
+    }
+    return index;
+  };
+  return { table, intern };
+};
+
+export const packFrame = (frame: RenderFrame): PackedFrame => {
+  const { faces, edgeSegments } = frame;
+  const objects = interner();
+  const colors = interner();
+
+  const vertexCount = faces.reduce((sum, face) => sum + face.projectedVerts.length, 0);
+  const faceInts = new Uint32Array(faces.length * FACE_INTS);
+  const faceFloats = new Float32Array(faces.length * FACE_FLOATS);
+  const vertices = new Float32Array(vertexCount * VERTEX_FLOATS);
+
+  let v = 0;
+  faces.forEach((face, i) => {
+    const ints = i * FACE_INTS;
+    const floats = i * FACE_FLOATS;
+    const flags =
+      (face.isSelected ? SELECTED : 0) |
+      (face.backFacing ? BACK_FACING : 0) |
+      (face.gradient ? HAS_GRADIENT : 0) |
+      (face.normal ? HAS_NORMAL : 0) |
+      (face.strokeScale !== undefined ? HAS_STROKE_SCALE : 0) |
+      (face.faceIndex !== undefined ? HAS_FACE_INDEX : 0) |
+      (face.objectId !== undefined ? HAS_OBJECT : 0);
+
+    faceInts[ints] = face.projectedVerts.length;
+    faceInts[ints + 1] = face.objectId !== undefined ? objects.intern(face.objectId) : 0;
+    faceInts[ints + 2] = colors.intern(face.color);
+    faceInts[ints + 3] = flags;
+    faceInts[ints + 4] = face.faceIndex ?? 0;
+
+    faceFloats[floats] = face.depth;
+    faceFloats[floats + 1] = face.lightIntensity;
+    if (face.normal) {
+      faceFloats[floats + 2] = face.normal.x;
+      faceFloats[floats + 3] = face.normal.y;
+      faceFloats[floats + 4] = face.normal.z;
+    }
+    faceFloats[floats + 5] = face.strokeScale ?? 1;
+    if (face.gradient) {
+      const g = face.gradient;
+      faceInts[ints + 5] = colors.intern(g.from);
+      faceInts[ints + 6] = colors.intern(g.to);
+      faceFloats[floats + 6] = g.x1;
+      faceFloats[floats + 7] = g.y1;
+      faceFloats[floats + 8] = g.x2;
+      faceFloats[floats + 9] = g.y2;
+    }
+
+    face.projectedVerts.forEach((p, j) => {
+      const vert = face.verts[j];
+      vertices[v] = vert.x;
+      vertices[v + 1] = vert.y;
+      vertices[v + 2] = vert.z;
+      vertices[v + 3] = p.x;
+      vertices[v + 4] = p.y;
+      vertices[v + 5] = p.scale;
+      v += VERTEX_FLOATS;
+    });
+  });
+
+  const edgeInts = new Uint32Array(edgeSegments.length * EDGE_INTS);
+  const edgeFloats = new Float32Array(edgeSegments.length * EDGE_FLOATS);
+  edgeSegments.forEach((seg, i) => {
+    edgeInts[i * EDGE_INTS] = objects.intern(seg.objectId);
+    edgeInts[i * EDGE_INTS + 1] = (EDGE_KINDS.indexOf(seg.kind) << 1) | (seg.visible ? 1 : 0);
+    const floats = i * EDGE_FLOATS;
+    edgeFloats[floats] = seg.x1;
+    edgeFloats[floats + 1] = seg.y1;
+    edgeFloats[floats + 2] = seg.x2;
+    edgeFloats[floats + 3] = seg.y2;
+    // NaN marks segments without depth cueing
+    edgeFloats[floats + 4] = seg.strokeScale ?? NaN;
+  });
+
+  return {
+    objectIds: objects.table,
+    colors: colors.table,
+    faceInts,
+    faceFloats,
+    vertices,
+    edgeInts,
+    edgeFloats,
+    shadows: frame.shadows,
+    stats: frame.stats,
+  };
+};
+
+// Buffers to hand over with postMessage
+export const frameTransferables = (packed: PackedFrame): Transferable[] => [
+  packed.faceInts.buffer,
+  packed.faceFloats.buffer,
+  packed.vertices.buffer,
+  packed.edgeInts.buffer,
+  packed.edgeFloats.buffer,
+];
+
+export const unpackFrame = (packed: PackedFrame): RenderFrame => {
+  const { objectIds, colors, faceInts, faceFloats, vertices, edgeInts, edgeFloats } = packed;
+  const faces: ProjectedFace[] = [];
+
+  let v = 0;
+  for (let i = 0; i < faceInts.length / FACE_INTS; i++) {
+    const ints = i * FACE_INTS;
+    const floats = i * FACE_FLOATS;
+    const count = faceInts[ints];
+    const flags = faceInts[ints + 3];
+    const has = (flag: number) => (flags & flag) !== 0;
+
+    const verts: Vector3[] = [];
+    const projectedVerts: Vector2[] = [];
+    for (let j = 0; j < count; j++) {
+      const z = vertices[v + 2];
+      verts.push({ x: vertices[v], y: vertices[v + 1], z });
+      projectedVerts.push({ x: vertices[v + 3], y: vertices[v + 4], scale: vertices[v + 5], z });
+      v += VERTEX_FLOATS;
+    }
+
+    faces.push({
+      verts,
+      projectedVerts,
+      color: colors[faceInts[ints + 2]],
+      depth: faceFloats[floats],
+      lightIntensity: faceFloats[floats + 1],
+      isSelected: has(SELECTED),
+      ...(has(HAS_OBJECT) && { objectId: objectIds[faceInts[ints + 1]] }),
+      ...(has(HAS_FACE_INDEX) && { faceIndex: faceInts[ints + 4] }),
+      ...(has(HAS_NORMAL) && {
+        normal: { x: faceFloats[floats + 2], y: faceFloats[floats + 3], z: faceFloats[floats + 4] },
+      }),
+      ...(has(HAS_GRADIENT) && {
+        gradient: {
+          x1: faceFloats[floats + 6],
+          y1: faceFloats[floats + 7],
+          x2: faceFloats[floats + 8],
+          y2: faceFloats[floats + 9],
+          from: colors[faceInts[ints + 5]],
+          to: colors[faceInts[ints + 6]],
+        },
+      }),
+      ...(has(BACK_FACING) && { backFacing: true }),
+      ...(has(HAS_STROKE_SCALE) && { strokeScale: faceFloats[floats + 5] }),
+    });
+  }
+
+  const edgeSegments: EdgeSegment[] = [];
+  for (let i = 0; i < edgeInts.length / EDGE_INTS; i++) {
+    const info = edgeInts[i * EDGE_INTS + 1];
+    const floats = i * EDGE_FLOATS;
+    const strokeScale = edgeFloats[floats + 4];
+    edgeSegments.push({
+      objectId: objectIds[edgeInts[i * EDGE_INTS]],
+      kind: EDGE_KINDS[info >> 1],
+      visible: (info & 1) === 1,
+      x1: edgeFloats[floats],
+      y1: edgeFloats[floats + 1],
+      x2: edgeFloats[floats + 2],
+      y2: edgeFloats[floats + 3],
+      ...(!Number.isNaN(strokeScale) && { strokeScale }),
+    });
+  }
+
+  return { faces, edgeSegments, shadows: packed.shadows, stats: packed.stats };
+};
+
+// Worker messages. The main thread keeps at most one request in flight.
+export interface RenderRequest {
+  id: number;
+  job: RenderJob;
+}
+
+export interface RenderResponse {
+  id: number;
+  frame: PackedFrame;
+}
@@ -0,0 +1,113 @@
+import { Face, PrimitiveParams, PrimitiveType, SceneObject, Vector3 } from '@/types/engine';
+import { generatePrimitiveFaces, generateMeshFaces, resolvePrimitiveParams } from '@/lib/primitives';
+
+// Tessellated primitive stored flat: faces[i] has faceSizes[i] corners, read
+// in order from `positions` (xyz each). Float64 keeps cached faces identical
+// to freshly generated ones.
+interface PrimitiveGeometry {
+  faceSizes: Uint16Array;
+  positions: Float64Array;
+  // Per-corner normals laid out like `positions`, when the generator gave them
+  normals: Float64Array | null;
+  // Per face: index into `colors`
+  faceColors: Uint16Array;
+  colors: string[];
+}
+
+// Volumes that move with time; static types are cached once per parameter set
+const ANIMATED_TYPES = new Set<PrimitiveType>(['metaballs', 'fluidBlob', 'cloudVolume']);
+
+// Animated entries are per time step, so the cache is bounded (least recently used goes)
+const MAX_ENTRIES = 64;
+
+const cache = new Map<string, PrimitiveGeometry>();
+const counters = { hits: 0, misses: 0 };
+
+// Keyed on resolved values, so an object without params shares the defaults' entry
+const cacheKey = (type: PrimitiveType, params: Partial<PrimitiveParams> | undefined, time: number): string => {
+  const shape = `${type}:${Object.values(resolvePrimitiveParams(type, params)).join(',')}`;
+  return ANIMATED_TYPES.has(type) ? `${shape}:${time}` : shape;
+};
+
+const packFaces = (faces: Face[]): PrimitiveGeometry => {
+  const colors: string[] = [];
+  const faceSizes = new Uint16Array(faces.length);
+  const faceColors = new Uint16Array(faces.length);
+  const positions = new Float64Array(faces.reduce((sum, face) => sum + face.verts.length, 0) * 3);
+  const normals = faces.length > 0 && faces.every(face => face.vertexNormals)
+    ? new Float64Array(positions.length)
+    : null;
+
+  let p = 0;
+  faces.forEach((face, i) => {
+    faceSizes[i] = face.verts.length;
+    let color = colors.indexOf(face.color);
+    if (color < 0) color = colors.push(face.color) - 1;
+    faceColors[i] = color;
+    face.verts.forEach((v, j) => {
+      if (normals) {
+        const n = face.vertexNormals[j];
+        normals.set([n.x, n.y, n.z], p);
+      }
+      positions[p++] = v.x;
+      positions[p++] = v.y;
+      positions[p++] = v.z;
+    });
+  });
+
+  return { faceSizes, positions, normals, faceColors, colors };
+};
+
+// Fresh face objects each call, so callers may keep or change them
+const unpackFaces = (geometry: PrimitiveGeometry): Face[] => {
+  const { faceSizes, positions, normals, faceColors, colors } = geometry;
+  const faces: Face[] = [];
+  let p = 0;
+  for (let i = 0; i < faceSizes.length; i++) {
+    const verts: Vector3[] = [];
+    const vertexNormals: Vector3[] = [];
+    for (let j = 0; j < faceSizes[i]; j++) {
+      verts.push({ x: positions[p], y: positions[p + 1], z: positions[p + 2] });
+      if (normals) vertexNormals.push({ x: normals[p], y: normals[p + 1], z: normals[p + 2] });
+      p += 3;
+    }
+    faces.push(normals
+      ? { verts, color: colors[faceColors[i]], vertexNormals }
+      : { verts, color: colors[faceColors[i]] });
+  }
+  return faces;
+};
+
+// Primitive faces, tessellated once per type, parameters (and time for animated volumes)
+export const cachedPrimitiveFaces = (
+  type: PrimitiveType,
+  params?: Partial<PrimitiveParams>,
+  time: number = 0
+): Face[] => {
+  const key = cacheKey(type, params, time);
+  let geometry = cache.get(key);
+
+  if (geometry) {
+    counters.hits++;
+    // Re-insert so Map order stays least recently used first
+    cache.delete(key);
+  } else {
+    counters.misses++;
+    geometry = packFaces(generatePrimitiveFaces(type, params, time));
+    if (cache.size >= MAX_ENTRIES) cache.delete(cache.keys().next().value);
+  }
+  cache.set(key, geometry);
+
+  return unpackFaces(geometry);
+};
+
+// Generate faces for any scene object (primitive or imported mesh)
+export const generateObjectFaces = (obj: SceneObject, time: number = 0): Face[] => {
+  if (obj.type === 'mesh') {
+    return obj.mesh ? generateMeshFaces(obj.mesh) : [];
+  }
+  return cachedPrimitiveFaces(obj.type, obj.params, time);
+};
+
+// Lookups since startup; diff two readings for a frame's hit rate
+export const geometryCacheCounters = (): { hits: number; misses: number } => ({ ...counters });
@@ -0,0 +1,361 @@
+import { Scene, EngineConfig, EdgeKind, EdgeSegment, Vector2, Vector3 } from '@/types/engine';
+import {
+  rotateEuler,
+  transformPoint,
+  project,
+  calculateCenter,
+  dot,
+  add,
+  subtract,
+  normalize,
+} from '@/lib/math';
+import { objectBoundingRadius } from '@/lib/primitives';
+import { generateObjectFaces } from '@/lib/geometryCache';
+import { createFrustum, clipPolygonToFrustum, clipSegmentToFrustum, sphereInFrustum } from '@/lib/clipping';
+import { fogAmount, fogStrokeScale } from '@/lib/fog';
+import { LodMemory, levelOfDetailObjects } from '@/lib/lod';
+
+// Folds sharper than this (degrees between face normals) are drawn as creases
+export const CREASE_ANGLE = 30;
+
+// Line weights for technical drawings; hidden edges are thin and dashed
+export const EDGE_STROKE_WIDTHS: Record<EdgeKind, number> = {
+  silhouette: 2,
+  crease: 1.25,
+  edge: 0.75,
+};
+export const HIDDEN_EDGE_WIDTH = 0.75;
+export const HIDDEN_EDGE_DASH = '4 3';
+
+// Edges between nearly coplanar faces are tessellation seams and are not drawn
+const COPLANAR_COS = Math.cos((1 * Math.PI) / 180);
+
+// Screen bucket size (px) for finding the faces that may cover an edge
+const CELL_SIZE = 64;
+
+// Pieces shorter than this (px) are dropped when an edge is split
+const MIN_SEGMENT = 0.25;
+
+// A front face that can hide edges, in camera and screen space
+interface Occluder {
+  objectId: string;
+  faceIndex: number;
+  normal: Vector3;
+  point: Vector3;
+  screen: Vector2[];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  // Nearest viewing depth; edges entirely in front of it cannot be covered
+  minZ: number;
+}
+
+// A unique mesh edge with the faces that share it
+interface MeshEdge {
+  a: Vector3;
+  b: Vector3;
+  faces: number[];
+}
+
+// Newell normal: robust to the repeated vertices of collapsed pole quads;
+// zero for faces with no area
+const faceNormal = (verts: Vector3[]): Vector3 => {
+  const n = { x: 0, y: 0, z: 0 };
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    n.x += (a.y - b.y) * (a.z + b.z);
+    n.y += (a.z - b.z) * (a.x + b.x);
+    n.z += (a.x - b.x) * (a.y + b.y);
+  }
+  return normalize(n);
+};
+
+// Even-odd crossing test
+const pointInPolygon = (p: Vector2, poly: Vector2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Where segment p→q crosses segment a→b, as a fraction along p→q
+const crossingParam = (p: Vector2, q: Vector2, a: Vector2, b: Vector2): number | null => {
+  const rx = q.x - p.x;
+  const ry = q.y - p.y;
+  const sx = b.x - a.x;
+  const sy = b.y - a.y;
+  const denom = rx * sy - ry * sx;
+  if (Math.abs(denom) < 1e-9) return null;
+  const t = ((a.x - p.x) * sy - (a.y - p.y) * sx) / denom;
+  const u = ((a.x - p.x) * ry - (a.y - p.y) * rx) / denom;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+// Hidden-line edges: shared edges are merged per object and classified, then
+// each is split wherever a front face's outline crosses it and every piece is
+// marked visible or hidden by ray-testing the faces under its midpoint.
+export const computeEdgeSegments = (
+  scene: Scene,
+  config: EngineConfig,
+  viewportWidth: number,
+  viewportHeight: number,
+  time: number = 0,
+  lod?: LodMemory
+): EdgeSegment[] => {
+  const { camera } = scene;
+  const cameraZ = camera.position.z;
+  const orthographic = camera.projection === 'orthographic';
+  const cameraPan = { x: -camera.position.x, y: -camera.position.y, z: 0 };
+  const frustum = createFrustum(
+    viewportWidth,
+    viewportHeight,
+    config.fov,
+    cameraZ,
+    orthographic ? -camera.far : camera.near,
+    camera.far,
+    orthographic
+  );
+  const eye: Vector3 = { x: 0, y: 0, z: -cameraZ };
+  const toScreen = (v: Vector3) =>
+    project(v, viewportWidth, viewportHeight, config.fov, cameraZ, orthographic);
+
+  const occluders: Occluder[] = [];
+  // `behind`: the edge only touches back faces, so the object's front covers it
+  const candidates: { objectId: string; kind: EdgeKind; edge: MeshEdge; behind: boolean }[] = [];
+
+  for (const obj of levelOfDetailObjects(scene, config, lod)) {
+    if (!obj.visible) continue;
+
+    const boundsCenter = rotateEuler(add(obj.position, cameraPan), camera.rotation);
+    const boundsRadius = objectBoundingRadius(obj) *
+      Math.max(Math.abs(obj.scale.x), Math.abs(obj.scale.y), Math.abs(obj.scale.z));
+    if (!sphereInFrustum(boundsCenter, boundsRadius, frustum)) continue;
+
+    const baseFaces = generateObjectFaces(obj, time);
+    const cameraFaces = baseFaces.map(face =>
+      face.verts.map(v =>
+        rotateEuler(add(transformPoint(v, obj.position, obj.rotation, obj.scale), cameraPan), camera.rotation)
+      )
+    );
+    const normals = cameraFaces.map(verts => faceNormal(verts));
+    const degenerate = normals.map(n => n.x === 0 && n.y === 0 && n.z === 0);
+    const front = cameraFaces.map((verts, i) => {
+      const viewDir = orthographic ? { x: 0, y: 0, z: 1 } : subtract(calculateCenter(verts), eye);
+      return dot(normals[i], viewDir) < 0;
+    });
+
+    // Front faces occlude; back faces never show, as in solid mode
+    cameraFaces.forEach((verts, faceIndex) => {
+      if (!front[faceIndex]) return;
+      const clipped = clipPolygonToFrustum(verts, frustum);
+      if (clipped.length < 3) return;
+      const screen = clipped.map(toScreen);
+      occluders.push({
+        objectId: obj.id,
+        faceIndex,
+        normal: normals[faceIndex],
+        point: clipped[0],
+        screen,
+        minX: Math.min(...screen.map(v => v.x)),
+        minY: Math.min(...screen.map(v => v.y)),
+        maxX: Math.max(...screen.map(v => v.x)),
+        maxY: Math.max(...screen.map(v => v.y)),
+        minZ: Math.min(...clipped.map(v => v.z)),
+      });
+    });
+
+    // Key edges by their rounded model-space endpoints so faces that share
+    // an edge (in either direction) find each other; rounding also folds -0 into 0
+    const pointKey = (v: Vector3) =>
+      `${Math.round(v.x * 1e4)},${Math.round(v.y * 1e4)},${Math.round(v.z * 1e4)}`;
+    const edges = new Map<string, MeshEdge>();
+    baseFaces.forEach((face, faceIndex) => {
+      if (degenerate[faceIndex]) return;
+      const n = face.verts.length;
+      const keys = face.verts.map(pointKey);
+      for (let i = 0; i < n; i++) {
+        const ka = keys[i];
+        const kb = keys[(i + 1) % n];
+        if (ka === kb) continue;
+        const key = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+        const existing = edges.get(key);
+        if (existing) {
+          existing.faces.push(faceIndex);
+        } else {
+          edges.set(key, {
+            a: cameraFaces[faceIndex][i],
+            b: cameraFaces[faceIndex][(i + 1) % n],
+            faces: [faceIndex],
+          });
+        }
+      }
+    });
+
+    for (const edge of edges.values()) {
+      const facing = edge.faces.filter(f => front[f]);
+      const behind = facing.length === 0;
+      const sides = behind ? edge.faces : facing;
+
+      let kind: EdgeKind;
+      if (sides.length < edge.faces.length || edge.faces.length === 1) {
+        kind = 'silhouette';
+      } else {
+        let minCos = 1;
+        for (let i = 1; i < sides.length; i++) {
+          minCos = Math.min(minCos, dot(normals[sides[0]], normals[sides[i]]));
+        }
+        if (minCos < Math.cos((CREASE_ANGLE * Math.PI) / 180)) kind = 'crease';
+        // Smooth-shaded objects read as curved surfaces, so only outlines and folds show
+        else if (minCos < COPLANAR_COS && obj.shading !== 'smooth') kind = 'edge';
+        else continue;
+      }
+      candidates.push({ objectId: obj.id, kind, edge, behind });
+    }
+  }
+
+  // Bucket occluders by the screen cells their bounds touch
+  // (off-screen space collapses into a border ring of cells)
+  const lastX = Math.ceil(viewportWidth / CELL_SIZE);
+  const lastY = Math.ceil(viewportHeight / CELL_SIZE);
+  const columns = lastX + 2;
+  const grid: number[][] = Array.from({ length: columns * (lastY + 2) }, () => []);
+  const cellIndex = (cx: number, cy: number) => (cy + 1) * columns + cx + 1;
+  const cell = (v: number, last: number) => Math.max(-1, Math.min(last, Math.floor(v / CELL_SIZE)));
+  const cellRange = (minX: number, minY: number, maxX: number, maxY: number) => ({
+    x0: cell(minX, lastX),
+    y0: cell(minY, lastY),
+    x1: cell(maxX, lastX),
+    y1: cell(maxY, lastY),
+  });
+  occluders.forEach((occ, index) => {
+    const { x0, y0, x1, y1 } = cellRange(occ.minX, occ.minY, occ.maxX, occ.maxY);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        grid[cellIndex(cx, cy)].push(index);
+      }
+    }
+  });
+
+  // Is a camera-space point behind an occluder's plane along its view ray?
+  const isBehind = (point: Vector3, occ: Occluder): boolean => {
+    if (orthographic) {
+      if (Math.abs(occ.normal.z) < 1e-9) return false;
+      const planeZ = occ.point.z -
+        (occ.normal.x * (point.x - occ.point.x) + occ.normal.y * (point.y - occ.point.y)) / occ.normal.z;
+      return planeZ < point.z - 1e-3;
+    }
+    const ray = subtract(point, eye);
+    const denom = dot(occ.normal, ray);
+    if (Math.abs(denom) < 1e-9) return false;
+    const t = dot(occ.normal, subtract(occ.point, eye)) / denom;
+    return t > 0 && t < 1 - 1e-4;
+  };
+
+  // Depth cueing thins each edge by the fog at its midpoint
+  const fog = scene.fog?.enabled ? scene.fog : null;
+
+  const segments: EdgeSegment[] = [];
+  const stamp = new Int32Array(occluders.length).fill(-1);
+
+  candidates.forEach(({ objectId, kind, edge, behind }, edgeIndex) => {
+    const clipped = clipSegmentToFrustum(edge.a, edge.b, frustum);
+    if (!clipped) return;
+    const [a, b] = clipped;
+    const p = toScreen(a);
+    const q = toScreen(b);
+    if (Math.hypot(q.x - p.x, q.y - p.y) < MIN_SEGMENT) return;
+    const strokeScale = fog ? fogStrokeScale(fog, fogAmount(fog, (a.z + b.z) / 2 + cameraZ)) : null;
+    const thinned = strokeScale !== null ? { strokeScale } : null;
+    if (behind) {
+      segments.push({ objectId, kind, visible: false, x1: p.x, y1: p.y, x2: q.x, y2: q.y, ...thinned });
+      return;
+    }
+    const maxZ = Math.max(a.z, b.z);
+
+    // Faces that could cover part of this edge (never the faces it bounds)
+    const covering: Occluder[] = [];
+    const { x0, y0, x1, y1 } = cellRange(
+      Math.min(p.x, q.x), Math.min(p.y, q.y), Math.max(p.x, q.x), Math.max(p.y, q.y)
+    );
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (const index of grid[cellIndex(cx, cy)]) {
+          if (stamp[index] === edgeIndex) continue;
+          stamp[index] = edgeIndex;
+          const occ = occluders[index];
+          if (occ.minZ > maxZ) continue;
+          if (occ.objectId === objectId && edge.faces.includes(occ.faceIndex)) continue;
+          if (occ.maxX < Math.min(p.x, q.x) || occ.minX > Math.max(p.x, q.x)) continue;
+          if (occ.maxY < Math.min(p.y, q.y) || occ.minY > Math.max(p.y, q.y)) continue;
+          covering.push(occ);
+        }
+      }
+    }
+
+    // Visibility can only change where an occluder's outline crosses the edge
+    const cuts = [0, 1];
+    for (const occ of covering) {
+      for (let i = 0; i < occ.screen.length; i++) {
+        const t = crossingParam(p, q, occ.screen[i], occ.screen[(i + 1) % occ.screen.length]);
+        if (t !== null) cuts.push(t);
+      }
+    }
+    cuts.sort((u, v) => u - v);
+
+    // Screen fraction -> camera-space point (perspective-correct)
+    const wa = a.z + cameraZ;
+    const wb = b.z + cameraZ;
+    const pointAt = (s: number): Vector3 => {
+      const t = orthographic ? s : (s * wa) / ((1 - s) * wb + s * wa);
+      return add(a, { x: (b.x - a.x) * t, y: (b.y - a.y) * t, z: (b.z - a.z) * t });
+    };
+
+    let runStart = 0;
+    let runVisible: boolean | null = null;
+    const flush = (end: number) => {
+      if (runVisible === null) return;
+      segments.push({
+        objectId,
+        kind,
+        visible: runVisible,
+        x1: p.x + (q.x - p.x) * runStart,
+        y1: p.y + (q.y - p.y) * runStart,
+        x2: p.x + (q.x - p.x) * end,
+        y2: p.y + (q.y - p.y) * end,
+        ...thinned,
+      });
+    };
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const s0 = cuts[i];
+      const s1 = cuts[i + 1];
+      if (s1 - s0 < 1e-6) continue;
+      const mid = (s0 + s1) / 2;
+      const screenMid = { x: p.x + (q.x - p.x) * mid, y: p.y + (q.y - p.y) * mid };
+      const point = pointAt(mid);
+      const visible = !covering.some(occ =>
+        screenMid.x >= occ.minX && screenMid.x <= occ.maxX &&
+        screenMid.y >= occ.minY && screenMid.y <= occ.maxY &&
+        pointInPolygon(screenMid, occ.screen) &&
+        isBehind(point, occ)
+      );
+      if (visible !== runVisible) {
+        flush(s0);
+        runStart = s0;
+        runVisible = visible;
+      }
+    }
+    flush(1);
+  });
+
+  // Drop slivers left by near-coincident cuts
+  return segments.filter(seg => Math.hypot(seg.x2 - seg.x1, seg.y2 - seg.y1) >= MIN_SEGMENT);
+};
+
@@ -0,0 +1,170 @@
+import { Scene } from '@/types/engine';
+
+// A patch holds the top-level scene keys a change touched
+export type ScenePatch = Partial<Scene>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  coalesceKey?: string;
+  undo: ScenePatch;
+  redo: ScenePatch;
+}
+
+export interface SceneHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Coalesce key of the newest entry while it still accepts merges
+  openKey: string | null;
+  // When the newest entry last changed (ms), so an idle gap closes it
+  lastChangeAt: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// A coalescing edit this long after the previous change starts a new entry,
+// even when nothing sealed the open one (e.g. a drawer field edited again later)
+export const COALESCE_IDLE_MS = 2000;
+
+let nextEntryId = 1;
+
+export const createHistory = (): SceneHistory => ({
+  past: [],
+  future: [],
+  openKey: null,
+  lastChangeAt: 0,
+});
+
+// Build undo/redo patches from the top-level keys whose references changed
+const diffScene = (prev: Scene, next: Scene): { undo: ScenePatch; redo: ScenePatch } | null => {
+  const undo: Record<string, unknown> = {};
+  const redo: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const key of Object.keys(next) as (keyof Scene)[]) {
+    if (prev[key] !== next[key]) {
+      undo[key] = prev[key];
+      redo[key] = next[key];
+      changed = true;
+    }
+  }
+
+  return changed ? { undo: undo as ScenePatch, redo: redo as ScenePatch } : null;
+};
+
+// Drop a dangling selection after a patch removed the selected object or light
+const applyPatch = (scene: Scene, patch: ScenePatch): Scene => {
+  const next = { ...scene, ...patch };
+  if (next.selectedObjectId && !next.objects.some(obj => obj.id === next.selectedObjectId)) {
+    next.selectedObjectId = null;
+  }
+  if (next.selectedLightId && !next.lights.some(light => light.id === next.selectedLightId)) {
+    next.selectedLightId = null;
+  }
+  return next;
+};
+
+// Record the change from prev to next. Consecutive changes sharing an open
+// coalesce key (e.g. one viewport drag) merge into a single entry.
+export const recordChange = (
+  history: SceneHistory,
+  prev: Scene,
+  next: Scene,
+  label: string,
+  coalesceKey?: string,
+  now: number = Date.now()
+): SceneHistory => {
+  const patch = diffScene(prev, next);
+  if (!patch) return history;
+
+  const last = history.past[history.past.length - 1];
+  const open = history.openKey === coalesceKey && now - history.lastChangeAt <= COALESCE_IDLE_MS;
+  if (coalesceKey && last && open) {
+    const merged: HistoryEntry = {
+      ...last,
+      // Keep the oldest value for every key so undo returns to the drag start
+      undo: { ...patch.undo, ...last.undo },
+      redo: { ...last.redo, ...patch.redo },
+    };
+    return {
+      past: [...history.past.slice(0, -1), merged],
+      future: [],
+      openKey: coalesceKey,
+      lastChangeAt: now,
+    };
+  }
+
+  const entry: HistoryEntry = {
+    id: nextEntryId++,
+    label,
+    coalesceKey,
+    undo: patch.undo,
+    redo: patch.redo,
+  };
+
+  return {
+    past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+    openKey: coalesceKey ?? null,
+    lastChangeAt: now,
+  };
+};
+
+// Stop the newest entry from absorbing further changes
+export const sealHistory = (history: SceneHistory): SceneHistory =>
+  history.openKey === null ? history : { ...history, openKey: null };
+
+export const undoChange = (
+  scene: Scene,
+  history: SceneHistory
+): { scene: Scene; history: SceneHistory } => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return { scene, history };
+
+  return {
+    scene: applyPatch(scene, entry.undo),
+    history: {
+      past: history.past.slice(0, -1),
+      future: [entry, ...history.future],
+      openKey: null,
+      lastChangeAt: history.lastChangeAt,
+    },
+  };
+};
+
+export const redoChange = (
+  scene: Scene,
+  history: SceneHistory
+): { scene: Scene; history: SceneHistory } => {
+  const entry = history.future[0];
+  if (!entry) return { scene, history };
+
+  return {
+    scene: applyPatch(scene, entry.redo),
+    history: {
+      past: [...history.past, entry],
+      future: history.future.slice(1),
+      openKey: null,
+      lastChangeAt: history.lastChangeAt,
+    },
+  };
+};
+
+// Undo or redo until exactly `index` entries are applied
+export const jumpToIndex = (
+  scene: Scene,
+  history: SceneHistory,
+  index: number
+): { scene: Scene; history: SceneHistory } => {
+  const total = history.past.length + history.future.length;
+  const target = Math.max(0, Math.min(total, index));
+
+  let state = { scene, history };
+  while (state.history.past.length > target) {
+    state = undoChange(state.scene, state.history);
+  }
+  while (state.history.past.length < target) {
+    state = redoChange(state.scene, state.history);
+  }
+  return state;
+};
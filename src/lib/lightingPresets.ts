@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { LightingPreset } from '@/types/engine';
+import { getLightsForMode } from '@/lib/renderer';
+import { lightListSchema, withLightIds } from '@/lib/sceneFile';
+
+// Saved presets live in the browser, shared by every scene
+const STORAGE_KEY = 'svg3d.lightingPresets';
+
+export const builtInPresets: LightingPreset[] = [
+  { id: 'day', name: 'Day', lights: getLightsForMode('day'), builtIn: true },
+  { id: 'night', name: 'Night', lights: getLightsForMode('night'), builtIn: true },
+];
+
+const savedPresetsSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  lights: lightListSchema,
+}));
+
+// Presets from storage; anything unreadable is ignored rather than blocking the editor
+export const loadSavedPresets = (): LightingPreset[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const result = savedPresetsSchema.safeParse(JSON.parse(raw));
+    if (!result.success) return [];
+    return result.data.map(preset => ({
+      id: preset.id,
+      name: preset.name,
+      lights: withLightIds(preset.lights),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedPresets = (presets: LightingPreset[]): void => {
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(presets.filter(preset => !preset.builtIn))
+    );
+  } catch {
+    // Storage can be full or disabled; presets then last for the session
+  }
+};
@@ -0,0 +1,114 @@
+import { Light, LightGizmo, LightType, Scene, Vector2, Vector3 } from '@/types/engine';
+import { rotateEuler, add, normalize, multiply, project } from '@/lib/math';
+
+// Defaults for new point and spot lights (scene units / degrees)
+export const DEFAULT_LIGHT_RANGE = 500;
+export const DEFAULT_SPOT_ANGLE = 35;
+export const DEFAULT_SPOT_PENUMBRA = 0.3;
+
+// Length of a spot gizmo's aim line, in world units along the cone axis
+const SPOT_AIM_LENGTH = 40;
+
+export const lightTypeLabels: Record<LightType, string> = {
+  ambient: 'Ambient Light',
+  directional: 'Directional Light',
+  point: 'Point Light',
+  spot: 'Spot Light',
+};
+
+// Point and spot lights sit somewhere in the scene and get viewport gizmos
+export const isPositionalLight = (light: Light): boolean =>
+  light.type === 'point' || light.type === 'spot';
+
+export const lightName = (light: Light): string =>
+  light.name ?? lightTypeLabels[light.type];
+
+// A new light with sensible defaults: positional ones above the origin
+// (spots aimed at it), directional ones shining down from the upper right
+export const createLight = (type: LightType, id: string, name: string): Light => {
+  switch (type) {
+    case 'ambient':
+      return { id, name, type, color: '#ffffff', intensity: 0.3 };
+    case 'directional':
+      return { id, name, type, color: '#ffffff', intensity: 0.8, direction: normalize({ x: 1, y: 1, z: 0.5 }) };
+    case 'point':
+      return {
+        id,
+        name,
+        type,
+        color: '#ffffff',
+        intensity: 1,
+        position: { x: 0, y: 120, z: -100 },
+        range: DEFAULT_LIGHT_RANGE,
+      };
+    case 'spot': {
+      const position = { x: 0, y: 180, z: -120 };
+      return {
+        id,
+        name,
+        type,
+        color: '#ffffff',
+        intensity: 1,
+        position,
+        direction: normalize(multiply(position, -1)),
+        range: DEFAULT_LIGHT_RANGE,
+        coneAngle: DEFAULT_SPOT_ANGLE,
+        penumbra: DEFAULT_SPOT_PENUMBRA,
+      };
+    }
+  }
+};
+
+// Switch a light's type, keeping its id, name, color and intensity and
+// filling in whatever the new type needs from the defaults
+export const changeLightType = (light: Light, type: LightType): Light => {
+  if (type === light.type) return light;
+  const defaults = createLight(type, light.id, light.name ?? lightTypeLabels[type]);
+  return {
+    ...defaults,
+    color: light.color,
+    intensity: light.intensity,
+    ...(defaults.position && light.position && { position: light.position }),
+    // Only directional <-> spot keep a direction; one points at the light, the other away
+    ...(defaults.direction && light.direction && { direction: multiply(light.direction, -1) }),
+    ...(defaults.range && light.range && { range: light.range }),
+  };
+};
+
+// Screen positions of the point and spot lights, skipping any behind the eye
+export const projectLightGizmos = (
+  scene: Scene,
+  width: number,
+  height: number
+): LightGizmo[] => {
+  const { camera } = scene;
+  const orthographic = camera.projection === 'orthographic';
+  const cameraPan = { x: -camera.position.x, y: -camera.position.y, z: 0 };
+  const toView = (p: Vector3) => rotateEuler(add(p, cameraPan), camera.rotation);
+  const toScreen = (v: Vector3) => project(v, width, height, camera.fov, camera.position.z, orthographic);
+  const inFront = (v: Vector3) => orthographic || v.z + camera.position.z > camera.near;
+
+  const gizmos: LightGizmo[] = [];
+  for (const light of scene.lights) {
+    if (!isPositionalLight(light) || !light.position) continue;
+    const center = toView(light.position);
+    if (!inFront(center)) continue;
+    const screen = toScreen(center);
+
+    let aim: Vector2 | undefined;
+    if (light.type === 'spot' && light.direction) {
+      const tip = toView(add(light.position, multiply(normalize(light.direction), SPOT_AIM_LENGTH)));
+      if (inFront(tip)) aim = toScreen(tip);
+    }
+
+    gizmos.push({
+      lightId: light.id,
+      type: light.type,
+      color: light.color,
+      x: screen.x,
+      y: screen.y,
+      ...(aim && { aim }),
+    });
+  }
+  return gizmos;
+};
@@ -0,0 +1,91 @@
+import { Scene, SceneObject, EngineConfig, LodQuality, PrimitiveType } from '@/types/engine';
+import { add, rotateEuler, clamp } from '@/lib/math';
+import { objectBoundingRadius, resolvePrimitiveParams } from '@/lib/primitives';
+
+// On-screen length, in pixels, one segment of a curved outline may span
+export const LOD_SEGMENT_PIXELS: Record<LodQuality, number> = {
+  draft: 32,
+  normal: 12,
+  high: 4,
+};
+
+export const DEFAULT_LOD_QUALITY: LodQuality = 'normal';
+
+// An object keeps its level until it shrinks this far below the size that
+// called for it, so zooming across a boundary doesn't pop back and forth
+const LOD_HYSTERESIS = 0.25;
+
+// Counts each level halves, and the floor that keeps the shape recognizable.
+// Level 0 is the object's own parameters.
+const LOD_COUNTS: Partial<Record<PrimitiveType, { key: 'segments' | 'rings'; min: number }[]>> = {
+  sphere: [{ key: 'segments', min: 6 }, { key: 'rings', min: 4 }],
+  cylinder: [{ key: 'segments', min: 6 }],
+  cone: [{ key: 'segments', min: 6 }],
+  torus: [{ key: 'segments', min: 6 }, { key: 'rings', min: 4 }],
+};
+
+// Level each object was last drawn at, carried between one view's frames
+export type LodMemory = Map<string, number>;
+
+export const createLodMemory = (): LodMemory => new Map();
+
+// Bounding radius in pixels (Infinity when the camera is inside the bounds)
+const projectedRadius = (obj: SceneObject, scene: Scene, config: EngineConfig): number => {
+  const { camera } = scene;
+  const radius = objectBoundingRadius(obj) *
+    Math.max(Math.abs(obj.scale.x), Math.abs(obj.scale.y), Math.abs(obj.scale.z));
+  if (camera.projection === 'orthographic') return (radius * config.fov) / camera.position.z;
+
+  const cameraPan = { x: -camera.position.x, y: -camera.position.y, z: 0 };
+  const center = rotateEuler(add(obj.position, cameraPan), camera.rotation);
+  const distance = center.z + camera.position.z;
+  return distance <= radius ? Infinity : (radius * config.fov) / distance;
+};
+
+// Scene objects with curved primitives tessellated for their size on screen.
+// With `memory`, levels change with hysteresis, and repeated calls for the
+// same frame (faces, edges, shadows) pick the same levels.
+export const levelOfDetailObjects = (
+  scene: Scene,
+  config: EngineConfig,
+  memory?: LodMemory
+): SceneObject[] => {
+  const segmentPixels = LOD_SEGMENT_PIXELS[config.lodQuality ?? DEFAULT_LOD_QUALITY];
+  const seen = new Set<string>();
+
+  const objects = scene.objects.map(obj => {
+    const counts = LOD_COUNTS[obj.type as PrimitiveType];
+    if (!counts || !obj.visible) return obj;
+
+    const params: Record<string, number> = { ...resolvePrimitiveParams(obj.type as PrimitiveType, obj.params) };
+    const maxLevel = Math.max(0, ...counts.map(({ key, min }) => Math.ceil(Math.log2(params[key] / min))));
+
+    // Coarsest level whose segments still span at most segmentPixels around the outline
+    const levelFor = (radius: number) =>
+      clamp(Math.floor(Math.log2(params.segments / ((2 * Math.PI * radius) / segmentPixels))), 0, maxLevel);
+
+    const radius = projectedRadius(obj, scene, config);
+    const previous = memory?.get(obj.id);
+    const level = previous === undefined
+      ? levelFor(radius)
+      : clamp(previous, levelFor(radius * (1 + LOD_HYSTERESIS)), levelFor(radius));
+    memory?.set(obj.id, level);
+    seen.add(obj.id);
+
+    if (level === 0) return obj;
+    const reduced = { ...params };
+    for (const { key, min } of counts) {
+      reduced[key] = Math.max(Math.min(min, params[key]), Math.round(params[key] / 2 ** level));
+    }
+    return { ...obj, params: reduced };
+  });
+
+  // Forget deleted and hidden objects
+  if (memory) {
+    for (const id of memory.keys()) {
+      if (!seen.has(id)) memory.delete(id);
+    }
+  }
+
+  return objects;
+};
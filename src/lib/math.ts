@@ -81,16 +81,31 @@ export const rotateEuler = (v: Vector3, rotation: Vector3): Vector3 => {
   return result;
 };
 
+// Undo rotateEuler (camera space back to world space)
+export const unrotateEuler = (v: Vector3, rotation: Vector3): Vector3 => {
+  let result = rotateZ(v, -rotation.z);
+  result = rotateY(result, -rotation.y);
+  result = rotateX(result, -rotation.x);
+  return result;
+};
+
 // Projection
+// Smallest viewing distance used as a divisor (clip before projecting)
+const MIN_PROJECTION_DEPTH = 0.001;
+
 export const project = (
   v: Vector3,
   width: number,
   height: number,
   fov: number,
-  cameraZ: number
+  cameraZ: number,
+  orthographic: boolean = false
 ): Vector2 => {
-  const zOffset = v.z + cameraZ;
-  const scale = zOffset > 10 ? fov / zOffset : fov / 10;
+  // Orthographic keeps the scale perspective would have at the orbit center.
+  // Perspective faces are clipped to the near plane first; the max only guards the divide.
+  const scale = orthographic
+    ? fov / cameraZ
+    : fov / Math.max(v.z + cameraZ, MIN_PROJECTION_DEPTH);
   
   return {
     x: v.x * scale + width / 2,
@@ -123,6 +138,27 @@ export const transformPoint = (
   return result;
 };
 
+// Transform a surface normal with an object's rotation and scale. Scaling by
+// the cofactors keeps it perpendicular under non-uniform scale and flips it
+// with a mirroring scale, like the faces' winding.
+export const transformNormal = (
+  normal: Vector3,
+  rotation: Vector3,
+  scale: Vector3
+): Vector3 => normalize(rotateEuler({
+  x: normal.x * scale.y * scale.z,
+  y: normal.y * scale.x * scale.z,
+  z: normal.z * scale.x * scale.y,
+}, rotation));
+
+// Convert between right-handed file space (OBJ, glTF, STL) and the engine's
+// left-handed view space by mirroring Z; faces must also reverse winding
+export const flipHandedness = (v: Vector3): Vector3 => ({
+  x: v.x,
+  y: v.y,
+  z: -v.z,
+});
+
 // Calculate face normal
 export const calculateNormal = (verts: Vector3[]): Vector3 => {
   if (verts.length < 3) return { x: 0, y: 0, z: 1 };
@@ -0,0 +1,326 @@
+import { Scene, Material, Vector3 } from '@/types/engine';
+import { generateObjectFaces } from '@/lib/geometryCache';
+import { transformPoint, flipHandedness, calculateNormal } from '@/lib/math';
+
+export type ModelExportFormat = 'obj' | 'stl-binary' | 'stl-ascii' | 'gltf';
+
+// World-space geometry for one scene object, in right-handed file space
+export interface ExportMesh {
+  name: string;
+  material: Material;
+  vertices: Vector3[];
+  faces: number[][];
+}
+
+// Generate, transform and index the visible objects' faces
+export const collectExportMeshes = (scene: Scene, time: number = 0): ExportMesh[] => {
+  const meshes: ExportMesh[] = [];
+
+  for (const obj of scene.objects) {
+    if (!obj.visible) continue;
+
+    const vertices: Vector3[] = [];
+    const index = new Map<string, number>();
+    const faces: number[][] = [];
+
+    for (const face of generateObjectFaces(obj, time)) {
+      const indices = face.verts.map(v => {
+        const world = flipHandedness(transformPoint(v, obj.position, obj.rotation, obj.scale));
+        // Weld coincident vertices (generators emit per-face copies)
+        const key = `${world.x.toFixed(5)},${world.y.toFixed(5)},${world.z.toFixed(5)}`;
+        let i = index.get(key);
+        if (i === undefined) {
+          i = vertices.length;
+          index.set(key, i);
+          vertices.push(world);
+        }
+        return i;
+      });
+
+      // Mirroring flipped the winding; reverse to keep outward normals
+      const unique = indices.filter((v, i) => v !== indices[(i + 1) % indices.length]).reverse();
+      if (unique.length >= 3) faces.push(unique);
+    }
+
+    if (faces.length > 0) {
+      meshes.push({ name: obj.name, material: obj.material, vertices, faces });
+    }
+  }
+
+  return meshes;
+};
+
+// OBJ names and material names cannot contain whitespace
+const safeName = (name: string) => name.trim().replace(/\s+/g, '_') || 'Object';
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const clean = hex.replace('#', '');
+  if (clean.length !== 6) return [0.8, 0.8, 0.8];
+  return [0, 2, 4].map(i => parseInt(clean.substring(i, i + 2), 16) / 255) as [number, number, number];
+};
+
+const formatFloat = (value: number) => {
+  const rounded = Number(value.toFixed(6));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// Give every distinct material a unique name, reusing identical ones
+const nameMaterials = (meshes: ExportMesh[]): { names: string[]; materials: Map<string, Material> } => {
+  const bySignature = new Map<string, string>();
+  const materials = new Map<string, Material>();
+
+  const names = meshes.map(mesh => {
+    const m = mesh.material;
+    const signature = [m.color, m.ambient, m.diffuse, m.specular, m.shininess].join('|');
+    const existing = bySignature.get(signature);
+    if (existing) return existing;
+
+    let name = safeName(m.id);
+    for (let n = 2; materials.has(name); n++) name = `${safeName(m.id)}_${n}`;
+    bySignature.set(signature, name);
+    materials.set(name, m);
+    return name;
+  });
+
+  return { names, materials };
+};
+
+// Wavefront OBJ with a companion MTL library
+export const exportObj = (
+  scene: Scene,
+  time: number = 0,
+  mtlFileName: string = 'scene.mtl'
+): { obj: string; mtl: string } => {
+  const meshes = collectExportMeshes(scene, time);
+  const { names, materials } = nameMaterials(meshes);
+
+  const obj: string[] = ['# SVG3D Engine export', `mtllib ${mtlFileName}`];
+  let offset = 1;
+
+  meshes.forEach((mesh, i) => {
+    obj.push(`o ${safeName(mesh.name)}`);
+    for (const v of mesh.vertices) {
+      obj.push(`v ${formatFloat(v.x)} ${formatFloat(v.y)} ${formatFloat(v.z)}`);
+    }
+    obj.push(`usemtl ${names[i]}`);
+    for (const face of mesh.faces) {
+      obj.push(`f ${face.map(index => index + offset).join(' ')}`);
+    }
+    offset += mesh.vertices.length;
+  });
+
+  const mtl: string[] = ['# SVG3D Engine export'];
+  for (const [name, m] of materials) {
+    const [r, g, b] = hexToRgb(m.color);
+    mtl.push(
+      `newmtl ${name}`,
+      `Ka ${formatFloat(m.ambient)} ${formatFloat(m.ambient)} ${formatFloat(m.ambient)}`,
+      `Kd ${formatFloat(r)} ${formatFloat(g)} ${formatFloat(b)}`,
+      `Ks ${formatFloat(m.specular)} ${formatFloat(m.specular)} ${formatFloat(m.specular)}`,
+      `Ns ${formatFloat(m.shininess)}`,
+      'illum 2',
+      ''
+    );
+  }
+
+  return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') };
+};
+
+// Fan-triangulate polygons (faces are convex or near-convex)
+const triangulate = (faces: number[][]): [number, number, number][] => {
+  const triangles: [number, number, number][] = [];
+  for (const face of faces) {
+    for (let i = 1; i < face.length - 1; i++) {
+      triangles.push([face[0], face[i], face[i + 1]]);
+    }
+  }
+  return triangles;
+};
+
+// STL, either one ASCII solid per object or a single binary solid
+export const exportStl = (
+  scene: Scene,
+  time: number = 0,
+  binary: boolean = true
+): string | ArrayBuffer => {
+  const meshes = collectExportMeshes(scene, time);
+  const perMesh = meshes.map(mesh => ({
+    mesh,
+    triangles: triangulate(mesh.faces).map(tri => tri.map(i => mesh.vertices[i])),
+  }));
+
+  if (!binary) {
+    const lines: string[] = [];
+    for (const { mesh, triangles } of perMesh) {
+      const name = safeName(mesh.name);
+      lines.push(`solid ${name}`);
+      for (const tri of triangles) {
+        const n = calculateNormal(tri);
+        lines.push(
+          `  facet normal ${formatFloat(n.x)} ${formatFloat(n.y)} ${formatFloat(n.z)}`,
+          '    outer loop',
+          ...tri.map(v => `      vertex ${formatFloat(v.x)} ${formatFloat(v.y)} ${formatFloat(v.z)}`),
+          '    endloop',
+          '  endfacet'
+        );
+      }
+      lines.push(`endsolid ${name}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  const count = perMesh.reduce((sum, m) => sum + m.triangles.length, 0);
+  const buffer = new ArrayBuffer(84 + count * 50);
+  const view = new DataView(buffer);
+
+  // Binary STL has no per-solid names; list them in the 80-byte header
+  const header = `SVG3D Engine: ${meshes.map(m => m.name).join(', ')}`.slice(0, 80);
+  for (let i = 0; i < header.length; i++) {
+    view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  }
+  view.setUint32(80, count, true);
+
+  let offset = 84;
+  for (const { triangles } of perMesh) {
+    for (const tri of triangles) {
+      const n = calculateNormal(tri);
+      for (const v of [n, ...tri]) {
+        view.setFloat32(offset, v.x, true);
+        view.setFloat32(offset + 4, v.y, true);
+        view.setFloat32(offset + 8, v.z, true);
+        offset += 12;
+      }
+      view.setUint16(offset, 0, true);
+      offset += 2;
+    }
+  }
+
+  return buffer;
+};
+
+// sRGB channel to linear for glTF baseColorFactor
+const srgbToLinear = (c: number) =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+// Base64 for a data URI, encoded in chunks to stay under argument limits
+const bufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Minimal glTF 2.0: one node/mesh per object, positions + indices in one
+// buffer embedded as a data URI, so the export is a single file
+export const exportGltf = (scene: Scene, time: number = 0): string => {
+  const meshes = collectExportMeshes(scene, time);
+  const { names, materials } = nameMaterials(meshes);
+  const materialNames = [...materials.keys()];
+
+  const layouts = meshes.map(mesh => {
+    const triangles = triangulate(mesh.faces);
+    return {
+      mesh,
+      triangles,
+      positionBytes: mesh.vertices.length * 12,
+      indexBytes: triangles.length * 12,
+    };
+  });
+  const byteLength = layouts.reduce((sum, l) => sum + l.positionBytes + l.indexBytes, 0);
+  const bin = new ArrayBuffer(byteLength);
+  const view = new DataView(bin);
+
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  const gltfMeshes: object[] = [];
+  const nodes: object[] = [];
+  let offset = 0;
+
+  layouts.forEach(({ mesh, triangles, positionBytes, indexBytes }, i) => {
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+    // Positions (float32 vec3); both views stay 4-byte aligned
+    const positionOffset = offset;
+    for (const v of mesh.vertices) {
+      view.setFloat32(offset, v.x, true);
+      view.setFloat32(offset + 4, v.y, true);
+      view.setFloat32(offset + 8, v.z, true);
+      offset += 12;
+      min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+      max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+    }
+
+    // Indices (uint32 scalars)
+    const indexOffset = offset;
+    for (const tri of triangles) {
+      for (const index of tri) {
+        view.setUint32(offset, index, true);
+        offset += 4;
+      }
+    }
+
+    const positionView = bufferViews.length;
+    bufferViews.push(
+      { buffer: 0, byteOffset: positionOffset, byteLength: positionBytes, target: 34962 },
+      { buffer: 0, byteOffset: indexOffset, byteLength: indexBytes, target: 34963 }
+    );
+
+    const positionAccessor = accessors.length;
+    accessors.push(
+      {
+        bufferView: positionView,
+        componentType: 5126,
+        count: mesh.vertices.length,
+        type: 'VEC3',
+        min: [min.x, min.y, min.z],
+        max: [max.x, max.y, max.z],
+      },
+      {
+        bufferView: positionView + 1,
+        componentType: 5125,
+        count: triangles.length * 3,
+        type: 'SCALAR',
+      }
+    );
+
+    gltfMeshes.push({
+      name: mesh.name,
+      primitives: [{
+        attributes: { POSITION: positionAccessor },
+        indices: positionAccessor + 1,
+        material: materialNames.indexOf(names[i]),
+        mode: 4,
+      }],
+    });
+    nodes.push({ name: mesh.name, mesh: i });
+  });
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'SVG3D Engine' },
+    scene: 0,
+    scenes: [{ name: 'Scene', nodes: nodes.map((_, i) => i) }],
+    nodes,
+    meshes: gltfMeshes,
+    materials: materialNames.map(name => {
+      const m = materials.get(name)!;
+      const [r, g, b] = hexToRgb(m.color).map(srgbToLinear);
+      return {
+        name,
+        pbrMetallicRoughness: {
+          baseColorFactor: [r, g, b, 1],
+          metallicFactor: 0,
+          // Blinn-Phong exponent to an approximate roughness
+          roughnessFactor: Math.sqrt(2 / (m.shininess + 2)),
+        },
+      };
+    }),
+    buffers: [{ uri: `data:application/octet-stream;base64,${bufferToBase64(bin)}`, byteLength }],
+    bufferViews,
+    accessors,
+  };
+
+  return JSON.stringify(gltf, null, 2);
+};
@@ -0,0 +1,321 @@
+import { Vector3, Material, MeshData, SceneObject } from '@/types/engine';
+import { flipHandedness } from '@/lib/math';
+
+// MTL material fields we map onto Material
+export interface MtlMaterial {
+  name: string;
+  Ka?: [number, number, number];
+  Kd?: [number, number, number];
+  Ks?: [number, number, number];
+  Ns?: number;
+}
+
+export type MtlLibrary = Record<string, MtlMaterial>;
+
+// One group/object (per material) parsed from an OBJ file
+export interface ObjGroup {
+  name: string;
+  materialName: string | null;
+  mesh: MeshData;
+}
+
+export interface ObjImportOptions {
+  // Center the model and scale its largest dimension to `fitSize`
+  normalize: boolean;
+  fitSize: number;
+}
+
+export const defaultObjImportOptions: ObjImportOptions = {
+  normalize: true,
+  fitSize: 100,
+};
+
+// Raised for malformed OBJ/MTL input; message carries the line number
+export class ObjParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ObjParseError';
+    this.line = line;
+  }
+}
+
+// Split into logical lines (joining `\` continuations) with comments removed
+const logicalLines = (text: string): { line: number; tokens: string[] }[] => {
+  const result: { line: number; tokens: string[] }[] = [];
+  const raw = text.split(/\r?\n/);
+  let pending = '';
+  let startLine = 1;
+
+  raw.forEach((rawLine, i) => {
+    if (pending === '') startLine = i + 1;
+    const content = rawLine.replace(/#.*$/, '');
+
+    if (content.trimEnd().endsWith('\\')) {
+      pending += content.trimEnd().slice(0, -1) + ' ';
+      return;
+    }
+
+    const full = (pending + content).trim();
+    pending = '';
+    if (full) result.push({ line: startLine, tokens: full.split(/\s+/) });
+  });
+
+  return result;
+};
+
+const parseNumber = (token: string | undefined, line: number, what: string): number => {
+  const value = token === undefined ? NaN : parseFloat(token);
+  if (!Number.isFinite(value)) {
+    throw new ObjParseError(`Expected a number for ${what}, got "${token ?? ''}"`, line);
+  }
+  return value;
+};
+
+const parseColor = (tokens: string[], line: number): [number, number, number] => {
+  const r = parseNumber(tokens[1], line, 'red');
+  // A single value means grey
+  const g = tokens[2] !== undefined ? parseNumber(tokens[2], line, 'green') : r;
+  const b = tokens[3] !== undefined ? parseNumber(tokens[3], line, 'blue') : r;
+  return [r, g, b];
+};
+
+// Parse an MTL file into a name -> material map
+export const parseMtl = (text: string): MtlLibrary => {
+  const library: MtlLibrary = {};
+  let current: MtlMaterial | null = null;
+
+  for (const { line, tokens } of logicalLines(text)) {
+    const keyword = tokens[0];
+
+    if (keyword === 'newmtl') {
+      const name = tokens.slice(1).join(' ');
+      if (!name) throw new ObjParseError('newmtl needs a material name', line);
+      current = { name };
+      library[name] = current;
+      continue;
+    }
+
+    if (!current) continue;
+
+    switch (keyword) {
+      case 'Ka':
+        current.Ka = parseColor(tokens, line);
+        break;
+      case 'Kd':
+        current.Kd = parseColor(tokens, line);
+        break;
+      case 'Ks':
+        current.Ks = parseColor(tokens, line);
+        break;
+      case 'Ns':
+        current.Ns = parseNumber(tokens[1], line, 'Ns');
+        break;
+      default:
+        // Maps, transparency, illum etc. have no counterpart in Material
+        break;
+    }
+  }
+
+  return library;
+};
+
+// Parse an OBJ file into groups; each group/object and material pair becomes one group
+export const parseObj = (text: string): { groups: ObjGroup[]; mtllibs: string[] } => {
+  // File-wide vertex pool (OBJ indices are global, 1-based)
+  const vertices: Vector3[] = [];
+  const mtllibs: string[] = [];
+
+  interface Building {
+    name: string;
+    materialName: string | null;
+    faces: number[][];
+  }
+  const groups: Building[] = [];
+  const groupIndex = new Map<string, Building>();
+
+  let groupName = 'Mesh';
+  let materialName: string | null = null;
+  let current: Building | null = null;
+
+  const selectGroup = () => {
+    const key = `${groupName}\u0000${materialName ?? ''}`;
+    current = groupIndex.get(key) ?? null;
+    if (!current) {
+      current = { name: groupName, materialName, faces: [] };
+      groupIndex.set(key, current);
+      groups.push(current);
+    }
+    return current;
+  };
+
+  const resolveIndex = (token: string, line: number): number => {
+    const raw = parseInt(token.split('/')[0], 10);
+    if (!Number.isFinite(raw) || raw === 0) {
+      throw new ObjParseError(`Invalid vertex reference "${token}"`, line);
+    }
+    // Negative indices count back from the most recent vertex
+    const index = raw > 0 ? raw - 1 : vertices.length + raw;
+    if (index < 0 || index >= vertices.length) {
+      throw new ObjParseError(
+        `Vertex reference ${raw} is out of range (${vertices.length} vertices defined so far)`,
+        line
+      );
+    }
+    return index;
+  };
+
+  for (const { line, tokens } of logicalLines(text)) {
+    const keyword = tokens[0];
+
+    switch (keyword) {
+      case 'v': {
+        const x = parseNumber(tokens[1], line, 'x');
+        const y = parseNumber(tokens[2], line, 'y');
+        const z = parseNumber(tokens[3], line, 'z');
+        // Optional homogeneous weight
+        const w = tokens[4] !== undefined ? parseNumber(tokens[4], line, 'w') : 1;
+        vertices.push({ x: x / w, y: y / w, z: z / w });
+        break;
+      }
+      case 'f': {
+        if (tokens.length < 4) {
+          throw new ObjParseError('A face needs at least three vertices', line);
+        }
+        const face = tokens.slice(1).map(token => resolveIndex(token, line));
+        (current ?? selectGroup()).faces.push(face);
+        break;
+      }
+      case 'o':
+      case 'g':
+        groupName = tokens.slice(1).join(' ') || groupName;
+        current = null;
+        break;
+      case 'usemtl':
+        materialName = tokens.slice(1).join(' ') || null;
+        current = null;
+        break;
+      case 'mtllib':
+        mtllibs.push(...tokens.slice(1));
+        break;
+      default:
+        // vt, vn, s, l, p and friends are not needed for flat-shaded faces
+        break;
+    }
+  }
+
+  // Re-index each group's faces into its own compact vertex list
+  const result: ObjGroup[] = groups
+    .filter(group => group.faces.length > 0)
+    .map(group => {
+      const remap = new Map<number, number>();
+      const groupVertices: Vector3[] = [];
+      const faces = group.faces.map(face =>
+        face.map(index => {
+          let local = remap.get(index);
+          if (local === undefined) {
+            local = groupVertices.length;
+            remap.set(index, local);
+            groupVertices.push(vertices[index]);
+          }
+          return local;
+        })
+      );
+      return {
+        name: group.name,
+        materialName: group.materialName,
+        mesh: { vertices: groupVertices, faces },
+      };
+    });
+
+  return { groups: result, mtllibs };
+};
+
+const channelToHex = (value: number) =>
+  Math.round(Math.max(0, Math.min(1, value)) * 255).toString(16).padStart(2, '0');
+
+const average = (rgb: [number, number, number]) => (rgb[0] + rgb[1] + rgb[2]) / 3;
+
+// Map an MTL material onto the engine's Material
+export const mtlToMaterial = (mtl: MtlMaterial | undefined, fallbackId: string): Material => ({
+  id: mtl?.name ?? fallbackId,
+  color: mtl?.Kd ? `#${mtl.Kd.map(channelToHex).join('')}` : '#cccccc',
+  ambient: mtl?.Ka ? Math.min(1, average(mtl.Ka)) : 0.2,
+  diffuse: 0.8,
+  specular: mtl?.Ks ? Math.min(1, average(mtl.Ks)) : 0.5,
+  shininess: mtl?.Ns ?? 32,
+});
+
+// Convert parsed OBJ groups into mesh SceneObjects
+export const objToSceneObjects = (
+  text: string,
+  materials: MtlLibrary = {},
+  options: ObjImportOptions = defaultObjImportOptions,
+  idPrefix: string = `mesh-${Date.now()}`
+): SceneObject[] => {
+  const { groups } = parseObj(text);
+  if (groups.length === 0) {
+    throw new ObjParseError('No faces found', 1);
+  }
+
+  // Bounds over the whole file so groups keep their relative placement
+  let min = { x: Infinity, y: Infinity, z: Infinity };
+  let max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const group of groups) {
+    for (const v of group.mesh.vertices) {
+      min = { x: Math.min(min.x, v.x), y: Math.min(min.y, v.y), z: Math.min(min.z, v.z) };
+      max = { x: Math.max(max.x, v.x), y: Math.max(max.y, v.y), z: Math.max(max.z, v.z) };
+    }
+  }
+
+  const center = options.normalize
+    ? { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 }
+    : { x: 0, y: 0, z: 0 };
+  const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z);
+  const scale = options.normalize && extent > 0 ? options.fitSize / extent : 1;
+
+  const splitByMaterial = new Set(groups.map(g => g.name)).size < groups.length;
+
+  return groups.map((group, i) => {
+    // File space -> engine space, normalized
+    const verts = group.mesh.vertices.map(v => flipHandedness({
+      x: (v.x - center.x) * scale,
+      y: (v.y - center.y) * scale,
+      z: (v.z - center.z) * scale,
+    }));
+
+    // Pivot each object at its own bounds center
+    const lo = { x: Infinity, y: Infinity, z: Infinity };
+    const hi = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const v of verts) {
+      lo.x = Math.min(lo.x, v.x); lo.y = Math.min(lo.y, v.y); lo.z = Math.min(lo.z, v.z);
+      hi.x = Math.max(hi.x, v.x); hi.y = Math.max(hi.y, v.y); hi.z = Math.max(hi.z, v.z);
+    }
+    const pivot = { x: (lo.x + hi.x) / 2, y: (lo.y + hi.y) / 2, z: (lo.z + hi.z) / 2 };
+
+    const name = splitByMaterial && group.materialName
+      ? `${group.name} (${group.materialName})`
+      : group.name;
+
+    return {
+      id: `${idPrefix}-${i}`,
+      name,
+      type: 'mesh',
+      position: pivot,
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+      material: mtlToMaterial(
+        group.materialName ? materials[group.materialName] : undefined,
+        `${idPrefix}-material-${i}`
+      ),
+      visible: true,
+      locked: false,
+      mesh: {
+        vertices: verts.map(v => ({ x: v.x - pivot.x, y: v.y - pivot.y, z: v.z - pivot.z })),
+        // Mirroring flips winding; reverse to keep outward-facing normals
+        faces: group.mesh.faces.map(face => [...face].reverse()),
+      },
+    };
+  });
+};
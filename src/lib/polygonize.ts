@@ -0,0 +1,187 @@
+import { MeshData, Vector3 } from '@/types/engine';
+import { cross, length, lerpVec3, normalize, subtract } from '@/lib/math';
+
+// Implicit surface: negative inside, positive outside, zero on the surface.
+// Must be finite wherever it is sampled.
+export type SignedDistanceField = (x: number, y: number, z: number) => number;
+
+export interface SdfBounds {
+  min: Vector3;
+  max: Vector3;
+}
+
+// Extracted surface: triangles over shared vertices, wound so their normals
+// point outward, plus each vertex's normal from the field's gradient
+export interface SdfSurface extends MeshData {
+  normals: Vector3[];
+}
+
+// Cell corner c sits at (c & 1, c >> 1 & 1, c >> 2 & 1) in cell units
+const CORNER_OFFSETS = Array.from({ length: 8 }, (_, c) => [c & 1, (c >> 1) & 1, (c >> 2) & 1]);
+
+// The 12 cell edges as corner pairs (lower corner first): 4 along x, 4 along y, 4 along z
+const EDGES: [number, number][] = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+// Corners of each cell face, counterclockwise seen from outside the cell
+const CELL_FACES = [
+  [0, 4, 6, 2], [1, 3, 7, 5],
+  [0, 1, 5, 4], [2, 6, 7, 3],
+  [0, 2, 3, 1], [4, 5, 7, 6],
+];
+
+const edgeBetween = (a: number, b: number): number =>
+  EDGES.findIndex(([p, q]) => (p === a && q === b) || (p === b && q === a));
+
+const onCommonFace = (a: number, b: number): boolean =>
+  CELL_FACES.some(corners => [...EDGES[a], ...EDGES[b]].every(corner => corners.includes(corner)));
+
+// Marching cubes case table, derived rather than typed in: for each of the 256
+// inside/outside corner patterns, the closed loops of crossed edges the surface
+// traces around the cell, ordered so the surface faces outward.
+//
+// Walking a cell face counterclockwise, each crossing either leaves the inside
+// (exit) or enters it, and every face links an entry back to the exit before
+// it, which winds the loop counterclockwise seen from outside the surface. A face
+// with two diagonal inside corners cuts them off separately. Both choices
+// depend only on the face's own corners, and the neighbouring cell walks the
+// face the other way round, so the surface has no cracks and neighbouring
+// triangles agree on their winding.
+//
+// Loops are rotated so fanning them from their first crossing never draws a
+// diagonal across a cell face, where the neighbouring cell could draw the same
+// one and the two surfaces would overlap.
+const buildLoopTable = (): number[][][] => Array.from({ length: 256 }, (_, mask) => {
+  const inside = (corner: number) => ((mask >> corner) & 1) === 1;
+  // Each crossed edge is an entry on one of its faces and an exit on the other
+  const next = new Map<number, number>();
+
+  for (const corners of CELL_FACES) {
+    // Face edge i runs from corner i to corner i + 1
+    const crossings = [0, 1, 2, 3]
+      .filter(i => inside(corners[i]) !== inside(corners[(i + 1) % 4]))
+      .map(i => ({ edge: edgeBetween(corners[i], corners[(i + 1) % 4]), exit: inside(corners[i]) }));
+    if (crossings.length === 0) continue;
+
+    // With four crossings, start at an exit so inside corner runs stay separate
+    const first = crossings.findIndex(crossing => crossing.exit);
+    for (let i = 0; i < crossings.length; i += 2) {
+      const exit = crossings[(first + i) % crossings.length];
+      const entry = crossings[(first + i + 1) % crossings.length];
+      next.set(entry.edge, exit.edge);
+    }
+  }
+
+  const loops: number[][] = [];
+  const visited = new Set<number>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue;
+    const loop: number[] = [];
+    let edge = start;
+    do {
+      loop.push(edge);
+      visited.add(edge);
+      edge = next.get(edge);
+    } while (edge !== start);
+
+    // A fan from loop[s] draws diagonals to every crossing but s and its neighbours
+    const crossesFace = (s: number) =>
+      loop.some((edge, i) => {
+        const steps = (i - s + loop.length) % loop.length;
+        return steps > 1 && steps < loop.length - 1 && onCommonFace(loop[s], edge);
+      });
+    const fanStart = Math.max(0, loop.findIndex((_, s) => !crossesFace(s)));
+    loops.push([...loop.slice(fanStart), ...loop.slice(0, fanStart)]);
+  }
+  return loops;
+});
+
+const LOOP_TABLE = buildLoopTable();
+
+// Polygonize the zero level of `fn` inside `bounds` with marching cubes over a
+// grid of `resolution` cells per axis. Crossings are placed by linear
+// interpolation along cell edges, and each crossing is one vertex shared by all
+// the cells around its edge. Surfaces that reach the bounds stay open there.
+export const polygonizeSDF = (
+  fn: SignedDistanceField,
+  bounds: SdfBounds,
+  resolution: number
+): SdfSurface => {
+  const n = Math.max(1, Math.round(resolution));
+  const { min, max } = bounds;
+  const cell = { x: (max.x - min.x) / n, y: (max.y - min.y) / n, z: (max.z - min.z) / n };
+  const stride = n + 1;
+  const gridIndex = (ix: number, iy: number, iz: number) => ix + stride * (iy + stride * iz);
+  const gridPoint = (index: number): Vector3 => ({
+    x: min.x + (index % stride) * cell.x,
+    y: min.y + (Math.floor(index / stride) % stride) * cell.y,
+    z: min.z + Math.floor(index / (stride * stride)) * cell.z,
+  });
+
+  // Sample every grid point once
+  const values = new Float64Array(stride * stride * stride);
+  for (let iz = 0; iz <= n; iz++) {
+    for (let iy = 0; iy <= n; iy++) {
+      for (let ix = 0; ix <= n; ix++) {
+        values[gridIndex(ix, iy, iz)] = fn(min.x + ix * cell.x, min.y + iy * cell.y, min.z + iz * cell.z);
+      }
+    }
+  }
+
+  // Central differences, a small fraction of a cell wide
+  const h = Math.min(cell.x, cell.y, cell.z) * 0.05;
+  const gradient = (p: Vector3): Vector3 => normalize({
+    x: fn(p.x + h, p.y, p.z) - fn(p.x - h, p.y, p.z),
+    y: fn(p.x, p.y + h, p.z) - fn(p.x, p.y - h, p.z),
+    z: fn(p.x, p.y, p.z + h) - fn(p.x, p.y, p.z - h),
+  });
+
+  const vertices: Vector3[] = [];
+  const normals: Vector3[] = [];
+  const faces: number[][] = [];
+
+  // Vertex on a crossed grid edge, keyed by its lower grid point and axis
+  const edgeVertices = new Map<number, number>();
+  const vertexOn = (ix: number, iy: number, iz: number, edge: number): number => {
+    const [a, b] = EDGES[edge].map(corner => {
+      const [dx, dy, dz] = CORNER_OFFSETS[corner];
+      return gridIndex(ix + dx, iy + dy, iz + dz);
+    });
+    const key = a * 3 + Math.floor(edge / 4);
+    let index = edgeVertices.get(key);
+    if (index === undefined) {
+      const t = values[a] / (values[a] - values[b]);
+      const p = lerpVec3(gridPoint(a), gridPoint(b), t);
+      index = vertices.push(p) - 1;
+      normals.push(gradient(p));
+      edgeVertices.set(key, index);
+    }
+    return index;
+  };
+
+  for (let iz = 0; iz < n; iz++) {
+    for (let iy = 0; iy < n; iy++) {
+      for (let ix = 0; ix < n; ix++) {
+        let mask = 0;
+        CORNER_OFFSETS.forEach(([dx, dy, dz], corner) => {
+          if (values[gridIndex(ix + dx, iy + dy, iz + dz)] < 0) mask |= 1 << corner;
+        });
+
+        for (const loop of LOOP_TABLE[mask]) {
+          const ring = loop.map(edge => vertexOn(ix, iy, iz, edge));
+          // Fan into triangles, dropping those collapsed where the field is zero at a corner
+          for (let i = 1; i < ring.length - 1; i++) {
+            const [p0, p1, p2] = [ring[0], ring[i], ring[i + 1]].map(index => vertices[index]);
+            if (length(cross(subtract(p1, p0), subtract(p2, p0))) === 0) continue;
+            faces.push([ring[0], ring[i], ring[i + 1]]);
+          }
+        }
+      }
+    }
+  }
+
+  return { vertices, faces, normals };
+};
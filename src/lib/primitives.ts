@@ -1,4 +1,14 @@
-import { Vector3, Face, PrimitiveType } from '@/types/engine';
+import {
+  Vector3,
+  Face,
+  PrimitiveType,
+  PrimitiveParams,
+  PrimitiveParamsMap,
+  MeshData,
+  SceneObject,
+} from '@/types/engine';
+import { clamp, calculateCenter } from '@/lib/math';
+import { polygonizeSDF } from '@/lib/polygonize';
 
 // Generate box faces
 export const generateBox = (size: number = 50): Face[] => {
@@ -34,12 +44,13 @@ export const generateBox = (size: number = 50): Face[] => {
 };
 
 // Generate sphere faces
-export const generateSphere = (radius: number = 50, segments: number = 16): Face[] => {
+// (`segments` around the equator, `rings` from pole to pole)
+export const generateSphere = (radius: number = 50, segments: number = 16, rings: number = segments): Face[] => {
   const faces: Face[] = [];
   
-  for (let lat = 0; lat < segments; lat++) {
-    const theta1 = (lat / segments) * Math.PI;
-    const theta2 = ((lat + 1) / segments) * Math.PI;
+  for (let lat = 0; lat < rings; lat++) {
+    const theta1 = (lat / rings) * Math.PI;
+    const theta2 = ((lat + 1) / rings) * Math.PI;
     
     for (let lon = 0; lon < segments; lon++) {
       const phi1 = (lon / segments) * 2 * Math.PI;
@@ -71,14 +82,14 @@ export const generateSphere = (radius: number = 50, segments: number = 16): Face
       
       // Calculate color based on position
       const hue = (lon / segments) * 60 + 160; // Cyan range
-      const lightness = 40 + (lat / segments) * 20;
+      const lightness = 40 + (lat / rings) * 20;
       
       if (lat === 0) {
         faces.push({
           verts: [v1, v3, v4],
           color: `hsl(${hue}, 100%, ${lightness}%)`,
         });
-      } else if (lat === segments - 1) {
+      } else if (lat === rings - 1) {
         faces.push({
           verts: [v1, v2, v3],
           color: `hsl(${hue}, 100%, ${lightness}%)`,
@@ -148,16 +159,22 @@ export const generateCylinder = (radius: number = 30, height: number = 80, segme
 };
 
 // Generate torus faces (fixed winding for correct outward normals)
-export const generateTorus = (majorRadius: number = 40, minorRadius: number = 15, segments: number = 16): Face[] => {
+// (`segments` around the ring, `rings` around the tube)
+export const generateTorus = (
+  majorRadius: number = 40,
+  minorRadius: number = 15,
+  segments: number = 16,
+  rings: number = segments
+): Face[] => {
   const faces: Face[] = [];
   
   for (let i = 0; i < segments; i++) {
     const theta1 = (i / segments) * 2 * Math.PI;
     const theta2 = ((i + 1) / segments) * 2 * Math.PI;
     
-    for (let j = 0; j < segments; j++) {
-      const phi1 = (j / segments) * 2 * Math.PI;
-      const phi2 = ((j + 1) / segments) * 2 * Math.PI;
+    for (let j = 0; j < rings; j++) {
+      const phi1 = (j / rings) * 2 * Math.PI;
+      const phi2 = ((j + 1) / rings) * 2 * Math.PI;
       
       const getVertex = (theta: number, phi: number): Vector3 => ({
         x: (majorRadius + minorRadius * Math.cos(phi)) * Math.cos(theta),
@@ -173,7 +190,7 @@ export const generateTorus = (majorRadius: number = 40, minorRadius: number = 15
           getVertex(theta2, phi1),
           getVertex(theta1, phi1),
         ],
-        color: `hsl(${(i / segments) * 40 + 180}, 100%, ${45 + (j / segments) * 15}%)`,
+        color: `hsl(${(i / segments) * 40 + 180}, 100%, ${45 + (j / rings) * 15}%)`,
       });
     }
   }
@@ -251,11 +268,13 @@ export const generatePyramid = (size: number = 50, height: number = 70): Face[]
   return faces;
 };
 
-// Generate 3D metaball cluster faces using SDF-based marching
-// Metaballs are implicit surfaces defined by the sum of distance fields
+// Grid cells per axis the metaball field is polygonized on
+const METABALL_RESOLUTION = 16;
+
+// Generate 3D metaball cluster faces
+// Metaballs are implicit surfaces defined by the sum of distance fields,
+// extracted with marching cubes so neighbouring blobs merge smoothly
 export const generateMetaballs = (size: number = 60, blobCount: number = 5, time: number = 0): Face[] => {
-  const faces: Face[] = [];
-  
   // Define blob positions (animated by time)
   const blobs: { x: number; y: number; z: number; radius: number }[] = [];
   for (let i = 0; i < blobCount; i++) {
@@ -276,98 +295,32 @@ export const generateMetaballs = (size: number = 60, blobCount: number = 5, time
       const dx = px - blob.x;
       const dy = py - blob.y;
       const dz = pz - blob.z;
-      const distSq = dx * dx + dy * dy + dz * dz;
+      // Guard the divide at a blob's exact center
+      const distSq = Math.max(dx * dx + dy * dy + dz * dz, 1e-9);
       sum += (blob.radius * blob.radius) / distSq;
     }
     return 1.0 - sum; // Negative inside surface
   };
   
-  // March through 3D grid and generate faces using marching cubes-like approach
-  const gridSize = 12;
-  const step = size * 1.5 / gridSize;
-  const offset = -size * 0.75;
+  const surface = polygonizeSDF(
+    sdfMetaballs,
+    { min: { x: -size, y: -size, z: -size }, max: { x: size, y: size, z: size } },
+    METABALL_RESOLUTION
+  );
   
-  for (let iz = 0; iz < gridSize; iz++) {
-    for (let iy = 0; iy < gridSize; iy++) {
-      for (let ix = 0; ix < gridSize; ix++) {
-        const x = offset + ix * step;
-        const y = offset + iy * step;
-        const z = offset + iz * step;
-        
-        // Sample SDF at cell corners
-        const s = step;
-        const v000 = sdfMetaballs(x, y, z);
-        const v100 = sdfMetaballs(x + s, y, z);
-        const v010 = sdfMetaballs(x, y + s, z);
-        const v110 = sdfMetaballs(x + s, y + s, z);
-        const v001 = sdfMetaballs(x, y, z + s);
-        const v101 = sdfMetaballs(x + s, y, z + s);
-        const v011 = sdfMetaballs(x, y + s, z + s);
-        const v111 = sdfMetaballs(x + s, y + s, z + s);
-        
-        // Check if surface crosses this cell
-        const inside = (v: number) => v < 0;
-        const hasInside = inside(v000) || inside(v100) || inside(v010) || inside(v110) ||
-                          inside(v001) || inside(v101) || inside(v011) || inside(v111);
-        const hasOutside = !inside(v000) || !inside(v100) || !inside(v010) || !inside(v110) ||
-                           !inside(v001) || !inside(v101) || !inside(v011) || !inside(v111);
-        
-        if (hasInside && hasOutside) {
-          // Generate faces for this cell - simplified quad approach
-          const cx = x + s / 2;
-          const cy = y + s / 2;
-          const cz = z + s / 2;
-          const hs = s * 0.45;
-          
-          // Calculate gradient for normal direction
-          const eps = 0.1;
-          const nx = sdfMetaballs(cx + eps, cy, cz) - sdfMetaballs(cx - eps, cy, cz);
-          const ny = sdfMetaballs(cx, cy + eps, cz) - sdfMetaballs(cx, cy - eps, cz);
-          const nz = sdfMetaballs(cx, cy, cz + eps) - sdfMetaballs(cx, cy, cz - eps);
-          const nmag = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
-          
-          // Create face perpendicular to gradient
-          const hue = 20 + (cy / size) * 30; // Orange gradient
-          const lightness = 50 + Math.abs(nx / nmag) * 20;
-          
-          // Generate quad aligned with dominant axis
-          if (Math.abs(nx) >= Math.abs(ny) && Math.abs(nx) >= Math.abs(nz)) {
-            faces.push({
-              verts: [
-                { x: cx, y: cy - hs, z: cz - hs },
-                { x: cx, y: cy + hs, z: cz - hs },
-                { x: cx, y: cy + hs, z: cz + hs },
-                { x: cx, y: cy - hs, z: cz + hs },
-              ],
-              color: `hsl(${hue}, 100%, ${lightness}%)`,
-            });
-          } else if (Math.abs(ny) >= Math.abs(nz)) {
-            faces.push({
-              verts: [
-                { x: cx - hs, y: cy, z: cz - hs },
-                { x: cx + hs, y: cy, z: cz - hs },
-                { x: cx + hs, y: cy, z: cz + hs },
-                { x: cx - hs, y: cy, z: cz + hs },
-              ],
-              color: `hsl(${hue}, 100%, ${lightness}%)`,
-            });
-          } else {
-            faces.push({
-              verts: [
-                { x: cx - hs, y: cy - hs, z: cz },
-                { x: cx + hs, y: cy - hs, z: cz },
-                { x: cx + hs, y: cy + hs, z: cz },
-                { x: cx - hs, y: cy + hs, z: cz },
-              ],
-              color: `hsl(${hue}, 100%, ${lightness}%)`,
-            });
-          }
-        }
-      }
-    }
-  }
-  
-  return faces;
+  return surface.faces.map(indices => {
+    const verts = indices.map(i => surface.vertices[i]);
+    const center = calculateCenter(verts);
+    const nx = indices.reduce((sum, i) => sum + surface.normals[i].x, 0) / indices.length;
+    
+    const hue = 20 + (center.y / size) * 30; // Orange gradient
+    const lightness = 50 + Math.abs(nx) * 20;
+    return {
+      verts,
+      color: `hsl(${hue}, 100%, ${lightness}%)`,
+      vertexNormals: indices.map(i => surface.normals[i]),
+    };
+  });
 };
 
 // Generate 3D fluid blob - represents SPH fluid as a deformable mesh
@@ -492,28 +445,181 @@ export const generateCloudVolume = (size: number = 80, puffCount: number = 6, ti
   return faces;
 };
 
+// Parameters an object gets when it has none (the shapes every primitive had before
+// parameters were editable)
+export const DEFAULT_PRIMITIVE_PARAMS: PrimitiveParamsMap = {
+  box: { size: 50 },
+  sphere: { radius: 50, segments: 16, rings: 16 },
+  cylinder: { radius: 30, height: 80, segments: 16 },
+  torus: { majorRadius: 40, minorRadius: 15, segments: 16, rings: 16 },
+  cone: { radius: 40, height: 80, segments: 16 },
+  pyramid: { size: 50, height: 70 },
+  metaballs: { size: 50, blobCount: 5 },
+  fluidBlob: { size: 50, particleCount: 8 },
+  cloudVolume: { size: 50, puffCount: 6 },
+};
+
+// Editor control and accepted range for one parameter (step 1 means a count)
+export interface PrimitiveParamField<T extends PrimitiveType = PrimitiveType> {
+  key: keyof PrimitiveParamsMap[T] & string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Keys stay literal, so each table entry is checked against its type's parameters
+const sizeField = <K extends string>(key: K, label: string, min = 5, max = 200) =>
+  ({ key, label, min, max, step: 1 });
+const countField = <K extends string>(key: K, label: string, min: number, max: number) =>
+  ({ key, label, min, max, step: 1 });
+
+export const PRIMITIVE_PARAM_FIELDS: { [T in PrimitiveType]: PrimitiveParamField<T>[] } = {
+  box: [sizeField('size', 'Size')],
+  sphere: [
+    sizeField('radius', 'Radius'),
+    countField('segments', 'Segments', 3, 64),
+    countField('rings', 'Rings', 2, 64),
+  ],
+  cylinder: [
+    sizeField('radius', 'Radius'),
+    sizeField('height', 'Height'),
+    countField('segments', 'Segments', 3, 64),
+  ],
+  torus: [
+    sizeField('majorRadius', 'Major radius'),
+    sizeField('minorRadius', 'Minor radius', 1, 100),
+    countField('segments', 'Segments', 3, 64),
+    countField('rings', 'Rings', 3, 64),
+  ],
+  cone: [
+    sizeField('radius', 'Radius'),
+    sizeField('height', 'Height'),
+    countField('segments', 'Segments', 3, 64),
+  ],
+  pyramid: [sizeField('size', 'Base size'), sizeField('height', 'Height')],
+  metaballs: [sizeField('size', 'Size'), countField('blobCount', 'Blobs', 1, 12)],
+  fluidBlob: [
+    sizeField('size', 'Size'),
+    countField('particleCount', 'Particles', 1, 16),
+  ],
+  cloudVolume: [sizeField('size', 'Size'), countField('puffCount', 'Puffs', 1, 12)],
+};
+
+// An object's full parameter block: its own values, clamped to the accepted
+// ranges (counts rounded), with defaults for anything missing or foreign
+export const resolvePrimitiveParams = <T extends PrimitiveType>(
+  type: T,
+  params?: Partial<PrimitiveParams>
+): PrimitiveParamsMap[T] => {
+  const values = params as Record<string, unknown> | undefined;
+  const resolved = { ...DEFAULT_PRIMITIVE_PARAMS[type] };
+  for (const field of PRIMITIVE_PARAM_FIELDS[type]) {
+    const value = values?.[field.key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const stepped = field.step === 1 ? Math.round(value) : value;
+    resolved[field.key] = clamp(stepped, field.min, field.max) as PrimitiveParamsMap[T][typeof field.key];
+  }
+  return resolved;
+};
+
 // Generate faces for a primitive type
-export const generatePrimitiveFaces = (type: PrimitiveType, size: number = 50, time: number = 0): Face[] => {
+export const generatePrimitiveFaces = (
+  type: PrimitiveType,
+  params?: Partial<PrimitiveParams>,
+  time: number = 0
+): Face[] => {
+  switch (type) {
+    case 'sphere': {
+      const p = resolvePrimitiveParams('sphere', params);
+      return generateSphere(p.radius, p.segments, p.rings);
+    }
+    case 'cylinder': {
+      const p = resolvePrimitiveParams('cylinder', params);
+      return generateCylinder(p.radius, p.height, p.segments);
+    }
+    case 'torus': {
+      const p = resolvePrimitiveParams('torus', params);
+      return generateTorus(p.majorRadius, p.minorRadius, p.segments, p.rings);
+    }
+    case 'cone': {
+      const p = resolvePrimitiveParams('cone', params);
+      return generateCone(p.radius, p.height, p.segments);
+    }
+    case 'pyramid': {
+      const p = resolvePrimitiveParams('pyramid', params);
+      return generatePyramid(p.size, p.height);
+    }
+    case 'metaballs': {
+      const p = resolvePrimitiveParams('metaballs', params);
+      return generateMetaballs(p.size, p.blobCount, time);
+    }
+    case 'fluidBlob': {
+      const p = resolvePrimitiveParams('fluidBlob', params);
+      return generateFluidBlob(p.size, p.particleCount, time);
+    }
+    case 'cloudVolume': {
+      const p = resolvePrimitiveParams('cloudVolume', params);
+      return generateCloudVolume(p.size, p.puffCount, time);
+    }
+    default:
+      return generateBox(resolvePrimitiveParams('box', params).size);
+  }
+};
+
+// Build faces from imported mesh data (polygons keep their vertex count)
+export const generateMeshFaces = (mesh: MeshData): Face[] => {
+  const faces: Face[] = [];
+  
+  for (const indices of mesh.faces) {
+    if (indices.length < 3) continue;
+    faces.push({
+      verts: indices.map(i => mesh.vertices[i]),
+      color: '#cccccc',
+    });
+  }
+  
+  return faces;
+};
+
+// Local-space bounding radius from a primitive's parameters, for culling without
+// tessellating. Animated volumes get headroom for their motion.
+const primitiveBoundingRadius = (type: PrimitiveType, params?: Partial<PrimitiveParams>): number => {
   switch (type) {
-    case 'box':
-      return generateBox(size);
     case 'sphere':
-      return generateSphere(size);
+      return resolvePrimitiveParams('sphere', params).radius;
     case 'cylinder':
-      return generateCylinder(size * 0.6, size * 1.6);
-    case 'torus':
-      return generateTorus(size * 0.8, size * 0.3);
-    case 'cone':
-      return generateCone(size * 0.8, size * 1.6);
-    case 'pyramid':
-      return generatePyramid(size, size * 1.4);
+    case 'cone': {
+      const { radius, height } = resolvePrimitiveParams(type, params);
+      return Math.hypot(radius, height / 2);
+    }
+    case 'torus': {
+      const { majorRadius, minorRadius } = resolvePrimitiveParams('torus', params);
+      return majorRadius + minorRadius;
+    }
+    case 'pyramid': {
+      const { size, height } = resolvePrimitiveParams('pyramid', params);
+      return Math.hypot(size / 2, size / 2, height / 2);
+    }
     case 'metaballs':
-      return generateMetaballs(size, 5, time);
+      return resolvePrimitiveParams('metaballs', params).size * 1.6;
     case 'fluidBlob':
-      return generateFluidBlob(size, 8, time);
+      return resolvePrimitiveParams('fluidBlob', params).size * 1.2;
     case 'cloudVolume':
-      return generateCloudVolume(size, 6, time);
+      return resolvePrimitiveParams('cloudVolume', params).size * 1.6;
     default:
-      return generateBox(size);
+      return (resolvePrimitiveParams('box', params).size / 2) * Math.sqrt(3);
+  }
+};
+
+// Bounding radius around the object's origin, before its scale is applied
+export const objectBoundingRadius = (obj: SceneObject): number => {
+  if (obj.type === 'mesh') {
+    let radius = 0;
+    for (const v of obj.mesh?.vertices ?? []) {
+      radius = Math.max(radius, Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z));
+    }
+    return radius;
   }
+  return primitiveBoundingRadius(obj.type, obj.params);
 };
@@ -1,15 +1,22 @@
 import {
   Scene,
+  Camera,
   SceneObject,
   ProjectedFace,
   Face,
   Light,
   EngineConfig,
   Vector3,
+  GridLine,
+  RenderStats,
+  RgbColor,
+  Material,
+  NormalVector,
 } from '@/types/engine';
 import {
   rotateEuler,
   transformPoint,
+  transformNormal,
   project,
   calculateNormal,
   calculateCenter,
@@ -18,20 +25,30 @@ import {
   add,
   subtract,
   multiply,
+  length,
 } from '@/lib/math';
-import { generatePrimitiveFaces } from '@/lib/primitives';
+import { objectBoundingRadius } from '@/lib/primitives';
+import { generateObjectFaces, geometryCacheCounters } from '@/lib/geometryCache';
+import { createFrustum, clipPolygonToFrustum, sphereInFrustum } from '@/lib/clipping';
+import { smoothVertexNormals, fitFaceGradient } from '@/lib/shading';
+import { sortFacesBsp } from '@/lib/bsp';
+import { DEFAULT_LIGHT_RANGE, DEFAULT_SPOT_ANGLE, DEFAULT_SPOT_PENUMBRA } from '@/lib/lights';
+import { GROUND_Y } from '@/lib/shadows';
+import { toonLevel, sampleRamp } from '@/lib/toon';
+import { fogAmount, applyFog, fogStrokeScale } from '@/lib/fog';
+import { LodMemory, levelOfDetailObjects } from '@/lib/lod';
 
 // Default lighting configurations
 export const getLightsForMode = (mode: 'day' | 'night'): Light[] => {
   if (mode === 'day') {
     return [
-      { type: 'ambient', color: '#ffffff', intensity: 0.6 },
-      { type: 'directional', color: '#ffffee', intensity: 1.0, direction: { x: 1, y: 1, z: 0.5 } },
+      { id: 'ambient', type: 'ambient', color: '#ffffff', intensity: 0.6 },
+      { id: 'key', type: 'directional', color: '#ffffee', intensity: 1.0, direction: { x: 1, y: 1, z: 0.5 } },
     ];
   } else {
     return [
-      { type: 'ambient', color: '#8888ff', intensity: 0.3 },
-      { type: 'directional', color: '#aaaaff', intensity: 0.5, direction: { x: -1, y: 1, z: 1 } },
+      { id: 'ambient', type: 'ambient', color: '#8888ff', intensity: 0.3 },
+      { id: 'key', type: 'directional', color: '#aaaaff', intensity: 0.5, direction: { x: -1, y: 1, z: 1 } },
     ];
   }
 };
@@ -43,57 +60,262 @@ export const getDefaultConfig = (): EngineConfig => ({
   ambientIntensity: 0.3,
   directionalIntensity: 0.8,
   lightDirection: normalize({ x: 1, y: 1, z: 0.5 }),
+  sortMode: 'painter',
 });
 
-// Calculate lighting intensity for a face
-const calculateLighting = (
+// Parse a #rrggbb color into 0..1 channels (anything else reads as mid grey)
+export const hexToRgb = (color: string): RgbColor => {
+  const hex = color.replace('#', '');
+  if (hex.length !== 6) return { r: 0.5, g: 0.5, b: 0.5 };
+  return {
+    r: parseInt(hex.substring(0, 2), 16) / 255,
+    g: parseInt(hex.substring(2, 4), 16) / 255,
+    b: parseInt(hex.substring(4, 6), 16) / 255,
+  };
+};
+
+export const rgbToCss = (c: RgbColor): string => {
+  const channel = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+  return `rgb(${channel(c.r)}, ${channel(c.g)}, ${channel(c.b)})`;
+};
+
+const multiplyRgb = (a: RgbColor, b: RgbColor): RgbColor => ({
+  r: a.r * b.r,
+  g: a.g * b.g,
+  b: a.b * b.b,
+});
+
+// A light resolved into camera space, its color pre-multiplied by intensity
+interface ViewLight {
+  type: Light['type'];
+  radiance: RgbColor;
+  // Unit vector toward the light (directional) or along the cone axis (spot)
+  direction?: Vector3;
+  // Point and spot lights
+  position?: Vector3;
+  range: number;
+  // Spot cone: full strength inside cosInner, nothing outside cosOuter
+  cosInner: number;
+  cosOuter: number;
+}
+
+// Lights are fixed in the world, so they move and turn with the camera like the geometry
+const prepareLights = (lights: Light[], camera: Camera): ViewLight[] =>
+  lights.map(light => {
+    const color = hexToRgb(light.color);
+    const outer = ((light.coneAngle ?? DEFAULT_SPOT_ANGLE) * Math.PI) / 180;
+    const inner = outer * (1 - Math.max(0, Math.min(1, light.penumbra ?? DEFAULT_SPOT_PENUMBRA)));
+    const cameraPan = { x: -camera.position.x, y: -camera.position.y, z: 0 };
+    return {
+      type: light.type,
+      radiance: {
+        r: color.r * light.intensity,
+        g: color.g * light.intensity,
+        b: color.b * light.intensity,
+      },
+      direction: light.direction
+        ? normalize(rotateEuler(light.direction, camera.rotation))
+        : undefined,
+      position: light.position
+        ? rotateEuler(add(light.position, cameraPan), camera.rotation)
+        : undefined,
+      range: light.range ?? DEFAULT_LIGHT_RANGE,
+      cosInner: Math.cos(inner),
+      cosOuter: Math.cos(outer),
+    };
+  });
+
+// Share of a light reaching a point `distance` away: a smooth fade to zero at the light's
+// range and, for spots, a soft edge across the penumbra. `toLight` is the
+// unit vector from the point toward the light.
+const lightFalloff = (light: ViewLight, distance: number, toLight: Vector3): number => {
+  const t = Math.min(1, distance / Math.max(light.range, 1e-6));
+  let falloff = (1 - t * t) * (1 - t * t);
+  if (light.type === 'spot' && light.direction) {
+    const cos = -dot(toLight, light.direction);
+    if (cos <= light.cosOuter) return 0;
+    if (cos < light.cosInner) {
+      const s = (cos - light.cosOuter) / (light.cosInner - light.cosOuter);
+      falloff *= s * s * (3 - 2 * s);
+    }
+  }
+  return falloff;
+};
+
+// Blinn-Phong at one surface point (camera space). `toEye` is the unit vector
+// from the point to the viewer. Returns the lit color and the light received
+// by the diffuse and ambient terms (0..1), which flat fills report as intensity.
+const shadePoint = (
+  point: Vector3,
   normal: Vector3,
-  lights: Light[],
-  cameraRotation: Vector3
-): number => {
-  let totalIntensity = 0;
-  
+  toEye: Vector3,
+  material: Material,
+  baseColor: RgbColor,
+  lights: ViewLight[]
+): { color: RgbColor; intensity: number } => {
+  const diffuse = { r: 0, g: 0, b: 0 };
+  const specular = { r: 0, g: 0, b: 0 };
+  let received = 0;
+
   for (const light of lights) {
+    const { radiance } = light;
     if (light.type === 'ambient') {
-      totalIntensity += light.intensity;
-    } else if (light.type === 'directional' && light.direction) {
-      // Rotate light direction with camera
-      const rotatedDirection = rotateEuler(light.direction, {
-        x: -cameraRotation.x,
-        y: -cameraRotation.y,
-        z: -cameraRotation.z,
+      diffuse.r += radiance.r * material.ambient;
+      diffuse.g += radiance.g * material.ambient;
+      diffuse.b += radiance.b * material.ambient;
+      received += (radiance.r + radiance.g + radiance.b) / 3 * material.ambient;
+      continue;
+    }
+
+    // Direction toward the light and how much of it arrives
+    let toLight: Vector3;
+    let falloff = 1;
+    if (light.type === 'directional') {
+      if (!light.direction) continue;
+      toLight = light.direction;
+    } else {
+      if (!light.position) continue;
+      const offset = subtract(light.position, point);
+      const distance = length(offset);
+      if (distance < 1e-6) continue;
+      toLight = multiply(offset, 1 / distance);
+      falloff = lightFalloff(light, distance, toLight);
+      if (falloff <= 0) continue;
+    }
+
+    const lambert = dot(normal, toLight);
+    if (lambert <= 0) continue;
+    const strength = material.diffuse * lambert * falloff;
+    diffuse.r += radiance.r * strength;
+    diffuse.g += radiance.g * strength;
+    diffuse.b += radiance.b * strength;
+    received += (radiance.r + radiance.g + radiance.b) / 3 * strength;
+
+    // Highlight from the half vector between light and eye
+    const half = normalize(add(toLight, toEye));
+    const highlight = Math.pow(Math.max(0, dot(normal, half)), Math.max(1, material.shininess)) *
+      material.specular * falloff;
+    specular.r += radiance.r * highlight;
+    specular.g += radiance.g * highlight;
+    specular.b += radiance.b * highlight;
+  }
+
+  return {
+    color: {
+      r: baseColor.r * diffuse.r + specular.r,
+      g: baseColor.g * diffuse.g + specular.g,
+      b: baseColor.b * diffuse.b + specular.b,
+    },
+    intensity: Math.min(1, received),
+  };
+};
+
+// Generate 3D grid floor lines
+export const generateGridFloor = (
+  size: number,
+  divisions: number,
+  cameraRotation: Vector3,
+  cameraPosition: Vector3,
+  width: number,
+  height: number,
+  fov: number,
+  cameraZ: number,
+  orthographic: boolean = false
+): { lines: GridLine[] } => {
+  const lines: GridLine[] = [];
+  const step = size / divisions;
+  const half = size / 2;
+  const gridY = GROUND_Y; // Grid floor Y position
+
+  for (let i = 0; i <= divisions; i++) {
+    const pos = -half + i * step;
+    const isMajor = i % 4 === 0;
+    const opacity = isMajor ? 0.4 : 0.15;
+
+    // Lines along X axis
+    const xStartW: Vector3 = { x: -half, y: gridY, z: pos };
+    const xEndW: Vector3 = { x: half, y: gridY, z: pos };
+
+    // Apply camera pan (x/y)
+    const xStart: Vector3 = add(xStartW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
+    const xEnd: Vector3 = add(xEndW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
+
+    const xStartRot = rotateEuler(xStart, cameraRotation);
+    const xEndRot = rotateEuler(xEnd, cameraRotation);
+
+    const xStartProj = project(xStartRot, width, height, fov, cameraZ, orthographic);
+    const xEndProj = project(xEndRot, width, height, fov, cameraZ, orthographic);
+    
+    // Only add if both points are in front of camera (anything goes in ortho)
+    if (orthographic || (xStartRot.z + cameraZ > 50 && xEndRot.z + cameraZ > 50)) {
+      lines.push({
+        x1: xStartProj.x,
+        y1: xStartProj.y,
+        x2: xEndProj.x,
+        y2: xEndProj.y,
+        opacity,
+      });
+    }
+
+    // Lines along Z axis
+    const zStartW: Vector3 = { x: pos, y: gridY, z: -half };
+    const zEndW: Vector3 = { x: pos, y: gridY, z: half };
+
+    const zStart: Vector3 = add(zStartW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
+    const zEnd: Vector3 = add(zEndW, { x: -cameraPosition.x, y: -cameraPosition.y, z: 0 });
+
+    const zStartRot = rotateEuler(zStart, cameraRotation);
+    const zEndRot = rotateEuler(zEnd, cameraRotation);
+
+    const zStartProj = project(zStartRot, width, height, fov, cameraZ, orthographic);
+    const zEndProj = project(zEndRot, width, height, fov, cameraZ, orthographic);
+    
+    if (orthographic || (zStartRot.z + cameraZ > 50 && zEndRot.z + cameraZ > 50)) {
+      lines.push({
+        x1: zStartProj.x,
+        y1: zStartProj.y,
+        x2: zEndProj.x,
+        y2: zEndProj.y,
+        opacity,
       });
-      
-      const normalizedDir = normalize(rotatedDirection);
-      const intensity = Math.max(0, dot(normal, normalizedDir)) * light.intensity;
-      totalIntensity += intensity;
     }
   }
-  
-  return Math.min(1, totalIntensity);
+
+  return { lines };
 };
 
-// Apply lighting to color
-const applyLightingToColor = (color: string, intensity: number): string => {
-  // Parse hex color
-  const hex = color.replace('#', '');
-  
-  if (hex.length !== 6) {
-    // Handle HSL or other formats
-    return color;
+// Length of the normal vectors drawn in the Normals view (world units)
+const NORMAL_VECTOR_LENGTH = 12;
+
+// Map a unit normal to a color, each axis -1..1 onto a 0..1 channel
+export const normalToRgb = (normal: Vector3): string =>
+  rgbToCss({ r: (normal.x + 1) / 2, g: (normal.y + 1) / 2, b: (normal.z + 1) / 2 });
+
+// Each rendered face's normal as a screen segment from its center outward;
+// tips that would cross the near plane are dropped
+export const projectFaceNormals = (
+  faces: ProjectedFace[],
+  camera: Camera,
+  config: EngineConfig,
+  viewportWidth: number,
+  viewportHeight: number
+): NormalVector[] => {
+  const orthographic = camera.projection === 'orthographic';
+  const cameraZ = camera.position.z;
+  const vectors: NormalVector[] = [];
+
+  for (const face of faces) {
+    if (!face.normal) continue;
+    const center = calculateCenter(face.verts);
+    const tip = add(center, multiply(face.normal, NORMAL_VECTOR_LENGTH));
+    if (!orthographic && tip.z + cameraZ < camera.near) continue;
+
+    const from = project(center, viewportWidth, viewportHeight, config.fov, cameraZ, orthographic);
+    const to = project(tip, viewportWidth, viewportHeight, config.fov, cameraZ, orthographic);
+    vectors.push({ x1: from.x, y1: from.y, x2: to.x, y2: to.y, backFacing: !!face.backFacing });
   }
-  
-  const r = parseInt(hex.substring(0, 2), 16);
-  const g = parseInt(hex.substring(2, 4), 16);
-  const b = parseInt(hex.substring(4, 6), 16);
-  
-  // Apply lighting
-  const factor = 0.2 + intensity * 0.8; // Keep some base brightness
-  const newR = Math.round(r * factor);
-  const newG = Math.round(g * factor);
-  const newB = Math.round(b * factor);
-  
-  return `rgb(${newR}, ${newG}, ${newB})`;
+
+  return vectors;
 };
 
 // Main render function
@@ -102,31 +324,75 @@ export const renderScene = (
   config: EngineConfig,
   viewportWidth: number,
   viewportHeight: number,
-  time: number = 0
+  time: number = 0,
+  stats?: RenderStats,
+  // Per-view level-of-detail state; without it levels are picked fresh each call
+  lod?: LodMemory
 ): ProjectedFace[] => {
-  const projectedFaces: ProjectedFace[] = [];
+  let projectedFaces: ProjectedFace[] = [];
+  const cacheStart = geometryCacheCounters();
+  const cameraPan = { x: -scene.camera.position.x, y: -scene.camera.position.y, z: 0 };
+  const orthographic = scene.camera.projection === 'orthographic';
+  const frustum = createFrustum(
+    viewportWidth,
+    viewportHeight,
+    config.fov,
+    scene.camera.position.z,
+    // Ortho has no divide to protect, so keep geometry behind the nominal eye
+    orthographic ? -scene.camera.far : scene.camera.near,
+    scene.camera.far,
+    orthographic
+  );
+  
+  const lights = prepareLights(scene.lights, scene.camera);
+  const toon = config.toon?.enabled ? config.toon : null;
+  const toonRamp = toon ? toon.ramp.map(hexToRgb) : [];
+  const fog = scene.fog?.enabled ? scene.fog : null;
+  const fogColor = fog ? hexToRgb(fog.color) : null;
+
+  // Unit vector from a camera-space point toward the viewer
+  const eyeDirection = (p: Vector3): Vector3 => orthographic
+    ? { x: 0, y: 0, z: -1 }
+    : normalize({ x: -p.x, y: -p.y, z: -(p.z + scene.camera.position.z) });
   
-  for (const obj of scene.objects) {
+  for (const obj of levelOfDetailObjects(scene, config, lod)) {
     if (!obj.visible) continue;
+    const baseColor = hexToRgb(obj.material.color);
+
+    // Skip objects whose bounding sphere is entirely outside the view volume
+    const boundsCenter = rotateEuler(add(obj.position, cameraPan), scene.camera.rotation);
+    const boundsRadius = objectBoundingRadius(obj) *
+      Math.max(Math.abs(obj.scale.x), Math.abs(obj.scale.y), Math.abs(obj.scale.z));
+    if (!sphereInFrustum(boundsCenter, boundsRadius, frustum)) continue;
     
-    // Generate base faces for this primitive type (pass time for animated effects)
-    const baseFaces = generatePrimitiveFaces(obj.type, 50, time);
-    
-    for (const face of baseFaces) {
-      // Transform vertices by object transform
-      const transformedVerts = face.verts.map(v =>
-        transformPoint(v, obj.position, obj.rotation, obj.scale)
-      );
+    // Generate base faces for this object (pass time for animated effects)
+    const baseFaces = generateObjectFaces(obj, time);
 
-      // Apply camera position (pan) before camera rotation
-      const cameraTranslatedVerts = transformedVerts.map(v =>
-        add(v, { x: -scene.camera.position.x, y: -scene.camera.position.y, z: 0 })
-      );
+    // Transform vertices by object transform, camera pan, then camera rotation
+    const cameraFaces = baseFaces.map(face =>
+      face.verts.map(v =>
+        rotateEuler(add(transformPoint(v, obj.position, obj.rotation, obj.scale), cameraPan), scene.camera.rotation)
+      )
+    );
 
-      // Apply camera rotation
-      const rotatedVerts = cameraTranslatedVerts.map(v =>
-        rotateEuler(v, scene.camera.rotation)
-      );
+    // Smooth shading needs every face's normal, including back faces; exact
+    // normals from the generator win over averaged ones
+    const vertexNormals = obj.shading !== 'smooth'
+      ? null
+      : baseFaces.every(face => face.vertexNormals)
+        ? baseFaces.map(face =>
+            face.vertexNormals.map(n =>
+              rotateEuler(transformNormal(n, obj.rotation, obj.scale), scene.camera.rotation)
+            )
+          )
+        : smoothVertexNormals(baseFaces.map(face => face.verts), cameraFaces);
+    
+    for (let faceIndex = 0; faceIndex < cameraFaces.length; faceIndex++) {
+      const cameraVerts = cameraFaces[faceIndex];
+
+      // Clip to the near/far planes so nothing is projected from behind the eye
+      const rotatedVerts = clipPolygonToFrustum(cameraVerts, frustum);
+      if (rotatedVerts.length < 3) continue;
       
       // Calculate face center for depth
       const center = calculateCenter(rotatedVerts);
@@ -137,31 +403,55 @@ export const renderScene = (
       // View-direction-based backface culling for proper FOV handling
       // Calculate view direction from camera to face center
       // Camera is at Z = -cameraZ, looking toward scene
+      // (orthographic views look straight down +Z everywhere)
       const cameraZ = scene.camera.position.z;
-      const viewDir = normalize({
+      const viewDir = orthographic ? { x: 0, y: 0, z: 1 } : normalize({
         x: center.x,
         y: center.y,
         z: center.z + cameraZ // Face center relative to camera position
       });
       
       // Face is visible if normal points toward camera (dot product with view < 0)
-      // Use a small threshold to include edge faces
+      // Use a small threshold to include edge faces; in ortho, edge-on faces are
+      // zero-area slivers on axis views, so drop them
       const dotProduct = dot(normal, viewDir);
-      if (dotProduct > 0.15) continue; // Small threshold keeps edge faces visible
+      const backFacing = dotProduct > (orthographic ? -1e-6 : 0.15);
+      if (backFacing && config.cullBackFaces !== false) continue;
 
-      // Calculate lighting (use absolute normal for consistent lighting)
-      const lightIntensity = calculateLighting(normal, scene.lights, scene.camera.rotation);
+      // Light the face with the object's material (back faces from their inner side)
+      const shadingNormal = backFacing ? multiply(normal, -1) : normal;
+      const shaded = shadePoint(center, shadingNormal, eyeDirection(center), obj.material, baseColor, lights);
+      const lightIntensity = shaded.intensity;
 
-      // Use object's material color instead of face color
-      const litColor = applyLightingToColor(obj.material.color, lightIntensity);
+      // Use center Z for depth (more negative = further from camera)
+      const depth = center.z;
+      const fogged = fog ? fogAmount(fog, depth + cameraZ) : 0;
+
+      // Toon: the received light picks a flat band; its ramp tint colors the material
+      const faceColor = toon
+        ? multiplyRgb(baseColor, sampleRamp(toonRamp, toonLevel(lightIntensity, toon.bands)))
+        : shaded.color;
+      const litColor = rgbToCss(fog ? applyFog(faceColor, fogColor, fogged) : faceColor);
+      const strokeScale = fog ? fogStrokeScale(fog, fogged) : null;
       
       // Project vertices
       const projectedVerts = rotatedVerts.map(v =>
-        project(v, viewportWidth, viewportHeight, config.fov, scene.camera.position.z)
+        project(v, viewportWidth, viewportHeight, config.fov, scene.camera.position.z, orthographic)
       );
       
-      // Use center Z for depth (more negative = further from camera)
-      const depth = center.z;
+      // Light each corner and ramp between them (clipped and toon faces stay flat)
+      const gradient = vertexNormals && !toon && !backFacing && rotatedVerts === cameraVerts
+        ? fitFaceGradient(
+            projectedVerts,
+            vertexNormals[faceIndex].map((n, i) => {
+              const v = rotatedVerts[i];
+              const color = shadePoint(v, n, eyeDirection(v), obj.material, baseColor, lights).color;
+              // Each corner fades by its own depth
+              return fog ? applyFog(color, fogColor, fogAmount(fog, v.z + cameraZ)) : color;
+            }),
+            rgbToCss
+          )
+        : null;
       
       projectedFaces.push({
         verts: rotatedVerts,
@@ -171,12 +461,41 @@ export const renderScene = (
         lightIntensity,
         objectId: obj.id,
         isSelected: obj.id === scene.selectedObjectId,
+        faceIndex,
+        normal,
+        ...(gradient && { gradient }),
+        ...(backFacing && { backFacing }),
+        ...(strokeScale !== null && { strokeScale }),
       });
     }
   }
   
-  // Sort by depth: render far to near (larger z is further with our camera)
-  projectedFaces.sort((a, b) => b.depth - a.depth);
+  const sortStart = performance.now();
+  let splits = 0;
+
+  if (config.sortMode === 'bsp') {
+    // Camera-space eye position (pushed far back for parallel projection);
+    // split pieces are reprojected the same way
+    const cameraZ = scene.camera.position.z;
+    const eye = { x: 0, y: 0, z: orthographic ? -1e6 : -cameraZ };
+    const result = sortFacesBsp(projectedFaces, eye, v =>
+      project(v, viewportWidth, viewportHeight, config.fov, cameraZ, orthographic)
+    );
+    projectedFaces = result.faces;
+    splits = result.splits;
+  } else {
+    // Sort by depth: render far to near (larger z is further with our camera)
+    projectedFaces.sort((a, b) => b.depth - a.depth);
+  }
+
+  if (stats) {
+    stats.faces = projectedFaces.length;
+    stats.splits = splits;
+    stats.sortMs = performance.now() - sortStart;
+    const cacheEnd = geometryCacheCounters();
+    stats.cacheHits = cacheEnd.hits - cacheStart.hits;
+    stats.cacheMisses = cacheEnd.misses - cacheStart.misses;
+  }
 
   return projectedFaces;
 };
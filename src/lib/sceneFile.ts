@@ -0,0 +1,340 @@
+import { z } from 'zod';
+import { Scene, Light, RenderSettings } from '@/types/engine';
+
+/*
+ * Scene file format (*.svg3d.json)
+ *
+ * {
+ *   "format": "svg3d-scene",
+ *   "version": 1,
+ *   "savedAt": "2026-01-01T00:00:00.000Z",
+ *   "scene": {
+ *     "objects": SceneObject[],
+ *     "lights": Light[],
+ *     "camera": Camera,
+ *     "cursor3D": Vector3,
+ *     "lightingMode": string (lighting preset id, e.g. "night"),
+ *     "fog"?: FogSettings
+ *   },
+ *   "renderSettings": {
+ *     "renderMode": RenderMode,
+ *     "cameraPreset": CameraPreset,
+ *     "gridVisible": boolean,
+ *     "axisVisible": boolean,
+ *     "shadows"?: { "enabled": boolean, "opacity": number },
+ *     "hiddenEdges"?: boolean,
+ *     "normalColors"?: boolean,
+ *     "toon"?: ToonSettings,
+ *     "lodQuality"?: "draft" | "normal" | "high"
+ *   }
+ * }
+ *
+ * Field shapes match the interfaces in src/types/engine.ts; imported meshes
+ * carry their indexed geometry in `mesh`, primitives their tessellation
+ * parameters in `params`. Selection is editor state and is never saved. New
+ * optional fields keep the version. Bump SCENE_FILE_VERSION when existing
+ * fields change shape or meaning and add a step to `migrations` that
+ * upgrades the previous version, so older files keep opening.
+ */
+
+export const SCENE_FILE_FORMAT = 'svg3d-scene';
+export const SCENE_FILE_VERSION = 1;
+export const SCENE_FILE_EXTENSION = '.svg3d.json';
+
+// Raised when a scene file cannot be read; `issues` holds one line per problem
+export class SceneFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.join('\n')}` : message);
+    this.name = 'SceneFileError';
+    this.issues = issues;
+  }
+}
+
+// Schemas
+const vector3Schema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+});
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color like #ff8800');
+
+const materialSchema = z.object({
+  id: z.string(),
+  color: hexColorSchema,
+  ambient: z.number().min(0).max(1),
+  diffuse: z.number().min(0).max(1),
+  specular: z.number().min(0).max(1),
+  shininess: z.number().min(0),
+});
+
+const lightSchema = z.object({
+  // Files written before lights were selectable have no ids; they get one on load
+  id: z.string().min(1).optional(),
+  name: z.string().optional(),
+  type: z.enum(['ambient', 'directional', 'point', 'spot']),
+  color: z.string(),
+  intensity: z.number().min(0),
+  direction: vector3Schema.optional(),
+  position: vector3Schema.optional(),
+  range: z.number().positive().optional(),
+  coneAngle: z.number().gt(0).max(90).optional(),
+  penumbra: z.number().min(0).max(1).optional(),
+});
+
+// Lights are selected and edited by id, so ids given in a file must be unique
+export const lightListSchema = z.array(lightSchema).superRefine((lights, ctx) => {
+  const seen = new Set<string>();
+  lights.forEach((light, index) => {
+    if (light.id === undefined) return;
+    if (seen.has(light.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'id'],
+        message: `Duplicate light id "${light.id}"`,
+      });
+    }
+    seen.add(light.id);
+  });
+});
+
+// Give lights without an id the first free `light-N`, skipping ids already taken
+export const withLightIds = (lights: z.infer<typeof lightListSchema>): Light[] => {
+  const taken = new Set(lights.map(light => light.id).filter(Boolean));
+  let next = 1;
+  return lights.map(light => {
+    if (light.id !== undefined) return light as Light;
+    while (taken.has(`light-${next}`)) next++;
+    const id = `light-${next}`;
+    taken.add(id);
+    return { ...light, id } as Light;
+  });
+};
+
+const cameraSchema = z.object({
+  position: vector3Schema,
+  rotation: vector3Schema,
+  fov: z.number().positive(),
+  near: z.number().nonnegative(),
+  far: z.number().positive(),
+  projection: z.enum(['perspective', 'orthographic']).optional(),
+});
+
+const meshSchema = z.object({
+  vertices: z.array(vector3Schema),
+  faces: z.array(z.array(z.number().int().nonnegative()).min(3, 'A face needs at least three vertices')),
+}).superRefine((mesh, ctx) => {
+  mesh.faces.forEach((face, index) => {
+    const bad = face.find(i => i >= mesh.vertices.length);
+    if (bad !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['faces', index],
+        message: `Vertex index ${bad} is out of range (${mesh.vertices.length} vertices)`,
+      });
+    }
+  });
+});
+
+// Out-of-range values load and are clamped when the primitive is generated
+const primitiveParamsSchema = z.object({
+  size: z.number().positive(),
+  radius: z.number().positive(),
+  height: z.number().positive(),
+  majorRadius: z.number().positive(),
+  minorRadius: z.number().positive(),
+  segments: z.number().int().positive(),
+  rings: z.number().int().positive(),
+  blobCount: z.number().int().positive(),
+  particleCount: z.number().int().positive(),
+  puffCount: z.number().int().positive(),
+}).partial();
+
+const sceneObjectSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum([
+    'box', 'sphere', 'cylinder', 'torus', 'cone', 'pyramid',
+    'metaballs', 'fluidBlob', 'cloudVolume', 'mesh',
+  ]),
+  position: vector3Schema,
+  rotation: vector3Schema,
+  scale: vector3Schema,
+  material: materialSchema,
+  visible: z.boolean(),
+  locked: z.boolean(),
+  mesh: meshSchema.optional(),
+  params: primitiveParamsSchema.optional(),
+  shading: z.enum(['flat', 'smooth']).optional(),
+}).refine(obj => obj.type !== 'mesh' || obj.mesh !== undefined, {
+  message: 'Mesh objects need mesh data',
+  path: ['mesh'],
+});
+
+const renderSettingsSchema = z.object({
+  renderMode: z.enum(['solid', 'wireframe', 'hiddenLine', 'normals', 'xray']),
+  cameraPreset: z.enum(['perspective', 'front', 'back', 'top', 'left', 'right']),
+  gridVisible: z.boolean(),
+  axisVisible: z.boolean(),
+  shadows: z.object({
+    enabled: z.boolean(),
+    opacity: z.number().min(0).max(1),
+  }).optional(),
+  hiddenEdges: z.boolean().optional(),
+  normalColors: z.boolean().optional(),
+  toon: z.object({
+    enabled: z.boolean(),
+    bands: z.number().int().min(2).max(8),
+    ramp: z.array(hexColorSchema).min(2).max(5),
+    outlines: z.boolean(),
+    creases: z.boolean(),
+    outlineWidth: z.number().positive(),
+    outlineColor: hexColorSchema,
+  }).optional(),
+  lodQuality: z.enum(['draft', 'normal', 'high']).optional(),
+});
+
+const fogSchema = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(['linear', 'exponential']),
+  color: hexColorSchema,
+  start: z.number().min(0),
+  end: z.number().min(0),
+  halfDistance: z.number().positive(),
+  thinStrokes: z.boolean(),
+}).refine(fog => fog.end > fog.start, { message: 'Fog end must be beyond its start', path: ['end'] });
+
+const sceneFileSchema = z.object({
+  format: z.literal(SCENE_FILE_FORMAT),
+  version: z.literal(SCENE_FILE_VERSION),
+  savedAt: z.string().optional(),
+  scene: z.object({
+    objects: z.array(sceneObjectSchema).superRefine((objects, ctx) => {
+      const seen = new Set<string>();
+      objects.forEach((obj, index) => {
+        if (seen.has(obj.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, 'id'],
+            message: `Duplicate object id "${obj.id}"`,
+          });
+        }
+        seen.add(obj.id);
+      });
+    }),
+    lights: lightListSchema,
+    camera: cameraSchema,
+    cursor3D: vector3Schema,
+    lightingMode: z.string(),
+    fog: fogSchema.optional(),
+  }),
+  renderSettings: renderSettingsSchema,
+});
+
+export type SceneFile = z.infer<typeof sceneFileSchema>;
+
+// Upgrade steps keyed by the version they upgrade *from*
+const migrations: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// Format a zod issue path as `scene.objects[2].position.x`
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`;
+    return acc ? `${acc}.${key}` : key;
+  }, '');
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => {
+    const path = formatPath(issue.path);
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+// Serialize a scene and its render settings to a JSON string
+export const serializeScene = (
+  scene: Scene,
+  renderSettings: RenderSettings
+): string => {
+  const doc: SceneFile = {
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    scene: {
+      objects: scene.objects,
+      lights: scene.lights,
+      camera: scene.camera,
+      cursor3D: scene.cursor3D,
+      lightingMode: scene.lightingMode,
+      fog: scene.fog,
+    },
+    renderSettings: {
+      ...renderSettings,
+      gridVisible: scene.gridVisible,
+      axisVisible: scene.axisVisible,
+    },
+  };
+
+  return JSON.stringify(doc, null, 2);
+};
+
+// Parse and validate a scene file; throws SceneFileError on any problem
+export const deserializeScene = (
+  json: string
+): { scene: Scene; renderSettings: RenderSettings } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new SceneFileError(
+      `Scene file is not valid JSON: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new SceneFileError('Scene file must contain a JSON object');
+  }
+
+  let doc = raw as Record<string, unknown>;
+  if (doc.format !== SCENE_FILE_FORMAT) {
+    throw new SceneFileError(
+      `Not a scene file (expected format "${SCENE_FILE_FORMAT}", got ${JSON.stringify(doc.format)})`
+    );
+  }
+
+  if (typeof doc.version !== 'number' || !Number.isInteger(doc.version)) {
+    throw new SceneFileError('Scene file is missing an integer "version"');
+  }
+  if (doc.version > SCENE_FILE_VERSION) {
+    throw new SceneFileError(
+      `Scene file version ${doc.version} is newer than this editor supports (${SCENE_FILE_VERSION})`
+    );
+  }
+
+  while ((doc.version as number) < SCENE_FILE_VERSION) {
+    const migrate = migrations[doc.version as number];
+    if (!migrate) {
+      throw new SceneFileError(`Scene file version ${doc.version} is no longer supported`);
+    }
+    doc = migrate(doc);
+  }
+
+  const result = sceneFileSchema.safeParse(doc);
+  if (!result.success) {
+    throw new SceneFileError('Scene file is malformed:', formatIssues(result.error));
+  }
+
+  const { scene, renderSettings } = result.data;
+
+  return {
+    scene: {
+      ...(scene as Omit<Scene, 'lights' | 'selectedObjectId' | 'selectedLightId' | 'gridVisible' | 'axisVisible'>),
+      lights: withLightIds(scene.lights),
+      selectedObjectId: null,
+      selectedLightId: null,
+      gridVisible: renderSettings.gridVisible,
+      axisVisible: renderSettings.axisVisible,
+    },
+    renderSettings: renderSettings as RenderSettings,
+  };
+};
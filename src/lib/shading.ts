@@ -0,0 +1,130 @@
+import { Vector2, Vector3, FaceGradient, RgbColor } from '@/types/engine';
+import { calculateNormal, dot, normalize } from '@/lib/math';
+
+// Faces meeting at a sharper angle than this keep a hard edge
+const CREASE_ANGLE = (60 * Math.PI) / 180;
+
+// Below this brightness spread across a face a gradient is not worth emitting
+const MIN_INTENSITY_SPREAD = 0.004;
+
+// Generators emit per-face vertex copies, so shared corners are matched by position
+const positionKey = (v: Vector3) => `${v.x.toFixed(4)},${v.y.toFixed(4)},${v.z.toFixed(4)}`;
+
+// Per-vertex normals for every face: the average of the normals of neighbouring
+// faces (at the same local position) within the crease angle. `localFaces` key
+// the corners; `viewFaces` are the same faces transformed, which the normals follow.
+export const smoothVertexNormals = (
+  localFaces: Vector3[][],
+  viewFaces: Vector3[][]
+): Vector3[][] => {
+  const faceNormals = viewFaces.map(verts => calculateNormal(verts));
+  const cosCrease = Math.cos(CREASE_ANGLE);
+
+  // Faces touching each corner position
+  const corners = new Map<string, number[]>();
+  localFaces.forEach((verts, faceIndex) => {
+    for (const v of verts) {
+      const key = positionKey(v);
+      const list = corners.get(key);
+      if (!list) corners.set(key, [faceIndex]);
+      else if (list[list.length - 1] !== faceIndex) list.push(faceIndex);
+    }
+  });
+
+  return localFaces.map((verts, faceIndex) => {
+    const own = faceNormals[faceIndex];
+    return verts.map(v => {
+      let sum = { x: 0, y: 0, z: 0 };
+      for (const other of corners.get(positionKey(v)) ?? [faceIndex]) {
+        const n = faceNormals[other];
+        if (other !== faceIndex && dot(own, n) < cosCrease) continue;
+        sum = { x: sum.x + n.x, y: sum.y + n.y, z: sum.z + n.z };
+      }
+      const n = normalize(sum);
+      return n.x === 0 && n.y === 0 && n.z === 0 ? own : n;
+    });
+  });
+};
+
+// Perceived brightness, used to pick the ramp direction
+const luminance = (c: RgbColor) => 0.2126 * c.r + 0.7152 * c.g + 0.0722 * c.b;
+
+// Fit a linear ramp through per-vertex colors in screen space (exact for
+// triangles, least squares for larger polygons) and express it as an SVG
+// linear gradient. The direction follows brightness; each channel is then
+// fitted along that direction and evaluated at the ramp's ends.
+export const fitFaceGradient = (
+  points: Vector2[],
+  colors: RgbColor[],
+  toCss: (color: RgbColor) => string
+): FaceGradient | null => {
+  const n = points.length;
+  if (n < 3) return null;
+
+  const intensities = colors.map(luminance);
+
+  // Centre the coordinates so the 2x2 normal equations stay well conditioned
+  let cx = 0;
+  let cy = 0;
+  let ci = 0;
+  for (let i = 0; i < n; i++) {
+    cx += points[i].x;
+    cy += points[i].y;
+    ci += intensities[i];
+  }
+  cx /= n;
+  cy /= n;
+  ci /= n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let sxi = 0;
+  let syi = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = points[i].x - cx;
+    const dy = points[i].y - cy;
+    const di = intensities[i] - ci;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    sxi += dx * di;
+    syi += dy * di;
+  }
+
+  const det = sxx * syy - sxy * sxy;
+  if (Math.abs(det) < 1e-9) return null;
+  const a = (sxi * syy - syi * sxy) / det;
+  const b = (syi * sxx - sxi * sxy) / det;
+  const slope = Math.sqrt(a * a + b * b);
+  if (slope < 1e-9) return null;
+
+  // Position of each corner along the ramp direction
+  const ux = a / slope;
+  const uy = b / slope;
+  const ts = points.map(p => (p.x - cx) * ux + (p.y - cy) * uy);
+  const lo = Math.min(...ts);
+  const hi = Math.max(...ts);
+  if ((hi - lo) * slope < MIN_INTENSITY_SPREAD) return null;
+
+  // Per-channel least squares along t (the t values are centred already)
+  const tt = ts.reduce((sum, t) => sum + t * t, 0);
+  const fit = (key: keyof RgbColor) => {
+    const mean = colors.reduce((sum, c) => sum + c[key], 0) / n;
+    const k = ts.reduce((sum, t, i) => sum + t * (colors[i][key] - mean), 0) / tt;
+    return (t: number) => mean + k * t;
+  };
+  const red = fit('r');
+  const green = fit('g');
+  const blue = fit('b');
+  const colorAt = (t: number): RgbColor => ({ r: red(t), g: green(t), b: blue(t) });
+
+  return {
+    x1: cx + ux * lo,
+    y1: cy + uy * lo,
+    x2: cx + ux * hi,
+    y2: cy + uy * hi,
+    from: toCss(colorAt(lo)),
+    to: toCss(colorAt(hi)),
+  };
+};
@@ -0,0 +1,102 @@
+import { Scene, EngineConfig, Light, ShadowSettings, ShadowShape, Vector2, Vector3 } from '@/types/engine';
+import { rotateEuler, transformPoint, calculateNormal, dot, normalize, add, project } from '@/lib/math';
+import { generateObjectFaces } from '@/lib/geometryCache';
+import { createFrustum, clipPolygonToFrustum } from '@/lib/clipping';
+import { LodMemory, levelOfDetailObjects } from '@/lib/lod';
+
+export const DEFAULT_SHADOW_SETTINGS: ShadowSettings = {
+  enabled: true,
+  opacity: 0.35,
+};
+
+// Height of the ground plane the grid floor is drawn on
+export const GROUND_Y = -80;
+
+// Blur radius (px) that softens shadow edges
+export const SHADOW_BLUR = 4;
+
+// Lights grazing the floor throw shadows off to infinity, so they are skipped
+const MIN_LIGHT_ELEVATION = 0.05;
+
+// The strongest directional light, if it shines down onto the floor
+const dominantLight = (lights: Light[]): Vector3 | null => {
+  let best: Light | null = null;
+  for (const light of lights) {
+    if (light.type !== 'directional' || !light.direction || light.intensity <= 0) continue;
+    if (!best || light.intensity > best.intensity) best = light;
+  }
+  if (!best) return null;
+  const direction = normalize(best.direction);
+  return direction.y > MIN_LIGHT_ELEVATION ? direction : null;
+};
+
+// Signed area in screen space; used to wind every polygon the same way so
+// overlapping pieces of one shadow union under the nonzero fill rule
+const signedArea = (verts: Vector2[]): number => {
+  let area = 0;
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+// Planar drop shadows: every light-facing face of each visible object is
+// pushed along the dominant directional light onto the ground plane, then
+// projected like geometry. One shape per object, in screen space.
+export const generateDropShadows = (
+  scene: Scene,
+  config: EngineConfig,
+  viewportWidth: number,
+  viewportHeight: number,
+  time: number = 0,
+  lod?: LodMemory
+): ShadowShape[] => {
+  const toLight = dominantLight(scene.lights);
+  if (!toLight) return [];
+
+  const { camera } = scene;
+  const orthographic = camera.projection === 'orthographic';
+  const cameraPan = { x: -camera.position.x, y: -camera.position.y, z: 0 };
+  const frustum = createFrustum(
+    viewportWidth,
+    viewportHeight,
+    config.fov,
+    camera.position.z,
+    orthographic ? -camera.far : camera.near,
+    camera.far,
+    orthographic
+  );
+
+  // Slide a world point down the light ray to the floor (points already below drop straight down)
+  const toGround = (p: Vector3): Vector3 => {
+    const t = Math.max(0, (p.y - GROUND_Y) / toLight.y);
+    return { x: p.x - toLight.x * t, y: GROUND_Y, z: p.z - toLight.z * t };
+  };
+
+  const shapes: ShadowShape[] = [];
+  for (const obj of levelOfDetailObjects(scene, config, lod)) {
+    if (!obj.visible) continue;
+
+    const polygons: Vector2[][] = [];
+    for (const face of generateObjectFaces(obj, time)) {
+      const world = face.verts.map(v => transformPoint(v, obj.position, obj.rotation, obj.scale));
+      if (dot(calculateNormal(world), toLight) <= 0) continue;
+
+      const view = clipPolygonToFrustum(
+        world.map(p => rotateEuler(add(toGround(p), cameraPan), camera.rotation)),
+        frustum
+      );
+      if (view.length < 3) continue;
+
+      const screen = view.map(v =>
+        project(v, viewportWidth, viewportHeight, config.fov, camera.position.z, orthographic)
+      );
+      polygons.push(signedArea(screen) < 0 ? screen.reverse() : screen);
+    }
+
+    if (polygons.length > 0) shapes.push({ objectId: obj.id, polygons });
+  }
+  return shapes;
+};
@@ -0,0 +1,393 @@
+import {
+  Scene,
+  EngineConfig,
+  ProjectedFace,
+  GridLine,
+  ShadowShape,
+  EdgeSegment,
+  EdgeKind,
+  ToonSettings,
+  Vector2,
+} from '@/types/engine';
+import { renderScene, generateGridFloor } from '@/lib/renderer';
+import { generateDropShadows, SHADOW_BLUR } from '@/lib/shadows';
+import {
+  computeEdgeSegments,
+  EDGE_STROKE_WIDTHS,
+  HIDDEN_EDGE_WIDTH,
+  HIDDEN_EDGE_DASH,
+} from '@/lib/hiddenLine';
+import { toonOutlineSegments, CREASE_OUTLINE_SCALE } from '@/lib/toon';
+
+// Static SVG export options
+export interface SvgExportOptions {
+  width: number;
+  height: number;
+  // Decimal places kept in path coordinates
+  precision: number;
+  // Solid background fill, or null for transparent
+  background: string | null;
+  includeGrid: boolean;
+  gridColor: string;
+  // Merge runs of same-colored faces into single outlined paths
+  mergeFaces: boolean;
+  // Thin dark edge stroke like the viewport's solid mode
+  strokeEdges: boolean;
+  // Hidden-line drawing instead of filled faces
+  lineArt: boolean;
+  lineColor: string;
+}
+
+// Layers drawn with the faces: drop shadows under them, toon ink on top
+export interface SvgFaceOverlays {
+  shadows?: ShadowShape[];
+  shadowOpacity?: number;
+  outlines?: EdgeSegment[];
+  toon?: ToonSettings;
+}
+
+export const defaultSvgExportOptions: SvgExportOptions = {
+  width: 1200,
+  height: 700,
+  precision: 1,
+  background: '#0a0a0a',
+  includeGrid: false,
+  gridColor: '#00eaff',
+  mergeFaces: true,
+  strokeEdges: false,
+  lineArt: false,
+  lineColor: '#e5e5e5',
+};
+
+// Round and strip trailing zeros ("12.50" -> "12.5", "-0" -> "0")
+export const formatNumber = (value: number, precision: number): string => {
+  const rounded = Number(value.toFixed(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// Normalize rgb()/hex colors to compact #rrggbb; other formats pass through
+export const toHexColor = (color: string): string => {
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4)
+      .map(c => Math.max(0, Math.min(255, parseInt(c, 10))).toString(16).padStart(2, '0'))
+      .join('');
+  }
+  return color.toLowerCase();
+};
+
+export const escapeAttr = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Path data for one closed polygon
+const polygonPath = (verts: Vector2[], precision: number): string => {
+  if (verts.length === 0) return '';
+  const points = verts.map(v => `${formatNumber(v.x, precision)} ${formatNumber(v.y, precision)}`);
+  return `M${points[0]}L${points.slice(1).join(' ')}Z`;
+};
+
+// Shoelace area; the sign gives the screen-space winding
+const signedArea = (verts: Vector2[]): number => {
+  let area = 0;
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i];
+    const b = verts[(i + 1) % verts.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+// Outline the union of polygons by cancelling shared edges (traversed in
+// opposite directions by edge-adjacent faces) and chaining what remains.
+// Edges keep a count, so an edge two overlapping faces walk the same way stays
+// twice and the nonzero fill still covers both.
+const mergePolygons = (polygons: Vector2[][], precision: number): string => {
+  const pointKey = (v: Vector2) => `${formatNumber(v.x, precision)} ${formatNumber(v.y, precision)}`;
+  const edges = new Map<string, { from: string; to: string; count: number }>();
+
+  for (const polygon of polygons) {
+    // Wind every polygon the same way so overlaps never cancel under nonzero fill
+    const poly = signedArea(polygon) < 0 ? [...polygon].reverse() : polygon;
+    for (let i = 0; i < poly.length; i++) {
+      const from = pointKey(poly[i]);
+      const to = pointKey(poly[(i + 1) % poly.length]);
+      if (from === to) continue;
+
+      const reverse = edges.get(`${to}>${from}`);
+      const edge = edges.get(`${from}>${to}`);
+      if (reverse && reverse.count > 0) {
+        reverse.count--;
+      } else if (edge) {
+        edge.count++;
+      } else {
+        edges.set(`${from}>${to}`, { from, to, count: 1 });
+      }
+    }
+  }
+
+  // Index remaining edges by start point, then walk them into loops
+  const outgoing = new Map<string, string[]>();
+  for (const { from, to, count } of edges.values()) {
+    if (count === 0) continue;
+    const list = outgoing.get(from) ?? [];
+    for (let i = 0; i < count; i++) list.push(to);
+    outgoing.set(from, list);
+  }
+
+  let path = '';
+  for (const start of outgoing.keys()) {
+    while ((outgoing.get(start)?.length ?? 0) > 0) {
+      const loop = [start];
+      let current = outgoing.get(start)!.pop()!;
+      while (current !== start) {
+        loop.push(current);
+        const next = outgoing.get(current)?.pop();
+        if (next === undefined) break;
+        current = next;
+      }
+      if (loop.length >= 3) {
+        path += `M${loop[0]}L${loop.slice(1).join(' ')}Z`;
+      }
+    }
+  }
+
+  return path;
+};
+
+// Build path elements in paint order
+const facePaths = (
+  faces: ProjectedFace[],
+  options: SvgExportOptions
+): string[] => {
+  const stroke = options.strokeEdges ? ' stroke="#000" stroke-opacity="0.1" stroke-width="0.5"' : '';
+  const paths: string[] = [];
+  let gradientCount = 0;
+
+  // Smooth-shaded faces get their own gradient and are never merged
+  const gradientPath = (face: ProjectedFace) => {
+    const d = polygonPath(face.projectedVerts, options.precision);
+    if (!d) return;
+    const g = face.gradient!;
+    const id = `shade-${gradientCount++}`;
+    const p = options.precision;
+    paths.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${formatNumber(g.x1, p)}" y1="${formatNumber(g.y1, p)}" x2="${formatNumber(g.x2, p)}" y2="${formatNumber(g.y2, p)}">` +
+      `<stop offset="0" stop-color="${escapeAttr(toHexColor(g.from))}"/>` +
+      `<stop offset="1" stop-color="${escapeAttr(toHexColor(g.to))}"/></linearGradient>`,
+      `<path d="${d}" fill="url(#${id})" stroke="url(#${id})" stroke-width="0.5"/>`
+    );
+  };
+
+  if (!options.mergeFaces) {
+    for (const face of faces) {
+      if (face.gradient) {
+        gradientPath(face);
+        continue;
+      }
+      const d = polygonPath(face.projectedVerts, options.precision);
+      if (d) paths.push(`<path d="${d}" fill="${escapeAttr(toHexColor(face.color))}"${stroke}/>`);
+    }
+    return paths;
+  }
+
+  // Only consecutive faces merge, so back-to-front order is preserved
+  let i = 0;
+  while (i < faces.length) {
+    if (faces[i].gradient) {
+      gradientPath(faces[i++]);
+      continue;
+    }
+    const fill = toHexColor(faces[i].color);
+    const run: Vector2[][] = [];
+    while (i < faces.length && !faces[i].gradient && toHexColor(faces[i].color) === fill) {
+      if (faces[i].projectedVerts.length >= 3) run.push(faces[i].projectedVerts);
+      i++;
+    }
+    const d = run.length === 1
+      ? polygonPath(run[0], options.precision)
+      : mergePolygons(run, options.precision);
+    if (d) paths.push(`<path d="${d}" fill="${escapeAttr(fill)}"${stroke}/>`);
+  }
+
+  return paths;
+};
+
+// Path data for a set of line segments
+const segmentPath = (segments: EdgeSegment[], precision: number): string => segments
+  .map(s =>
+    `M${formatNumber(s.x1, precision)} ${formatNumber(s.y1, precision)}` +
+    `L${formatNumber(s.x2, precision)} ${formatNumber(s.y2, precision)}`
+  )
+  .join('');
+
+// Stroked paths at a base width; fog-thinned segments group by their scale
+// rounded to a tenth, so depth cueing adds only a few paths
+const strokePaths = (
+  segments: EdgeSegment[],
+  width: number,
+  precision: number,
+  attributes: string = ''
+): string[] => {
+  const groups = new Map<number, EdgeSegment[]>();
+  for (const seg of segments) {
+    const scale = Math.round((seg.strokeScale ?? 1) * 10) / 10;
+    const group = groups.get(scale);
+    if (group) group.push(seg);
+    else groups.set(scale, [seg]);
+  }
+  return [...groups].map(([scale, group]) =>
+    `<path d="${segmentPath(group, precision)}" stroke-width="${formatNumber(width * scale, 2)}"${attributes}/>`
+  );
+};
+
+// Document header, background and grid shared by both export styles
+const documentStart = (options: SvgExportOptions, gridLines: GridLine[]): string[] => {
+  const { width, height, precision } = options;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ];
+
+  if (options.background) {
+    lines.push(`<rect width="${width}" height="${height}" fill="${escapeAttr(options.background)}"/>`);
+  }
+
+  if (options.includeGrid && gridLines.length > 0) {
+    lines.push(`<g id="grid" stroke="${escapeAttr(options.gridColor)}" stroke-width="1">`);
+    for (const line of gridLines) {
+      lines.push(
+        `<line x1="${formatNumber(line.x1, precision)}" y1="${formatNumber(line.y1, precision)}" ` +
+        `x2="${formatNumber(line.x2, precision)}" y2="${formatNumber(line.y2, precision)}" ` +
+        `stroke-opacity="${formatNumber(line.opacity, 2)}"/>`
+      );
+    }
+    lines.push('</g>');
+  }
+
+  return lines;
+};
+
+// Turn a renderScene result into a self-contained SVG document
+export const facesToSvg = (
+  faces: ProjectedFace[],
+  options: SvgExportOptions,
+  gridLines: GridLine[] = [],
+  overlays: SvgFaceOverlays = {}
+): string => {
+  const { precision } = options;
+  const { shadows = [], shadowOpacity = 0.35, outlines = [], toon } = overlays;
+  const lines = documentStart(options, gridLines);
+
+  // Soft drop shadows under the faces, blurred and faded as one layer
+  if (shadows.length > 0) {
+    lines.push(
+      `<filter id="shadow-blur" x="-20%" y="-20%" width="140%" height="140%">` +
+      `<feGaussianBlur stdDeviation="${SHADOW_BLUR}"/></filter>`,
+      `<g id="shadows" opacity="${formatNumber(shadowOpacity, 2)}" filter="url(#shadow-blur)">`
+    );
+    for (const shape of shadows) {
+      const d = shape.polygons.map(poly => polygonPath(poly, precision)).join('');
+      if (d) lines.push(`<path d="${d}" fill="#000"/>`);
+    }
+    lines.push('</g>');
+  }
+
+  lines.push('<g id="faces" stroke-linejoin="round">');
+  lines.push(...facePaths(faces, options));
+  lines.push('</g>');
+
+  // Toon ink: one path for silhouettes, a thinner one for creases
+  if (toon && outlines.length > 0) {
+    lines.push(`<g id="outlines" fill="none" stroke="${escapeAttr(toon.outlineColor)}" stroke-linecap="round">`);
+    const inkPaths: [EdgeKind, number][] = [
+      ['silhouette', toon.outlineWidth],
+      ['crease', toon.outlineWidth * CREASE_OUTLINE_SCALE],
+    ];
+    for (const [kind, width] of inkPaths) {
+      lines.push(...strokePaths(outlines.filter(s => s.kind === kind), width, precision));
+    }
+    lines.push('</g>');
+  }
+
+  lines.push('</svg>');
+
+  return lines.join('\n');
+};
+
+// Line-art document from hidden-line edges: one path per line weight, with
+// occluded edges as a dashed layer underneath (or left out)
+export const edgesToSvg = (
+  segments: EdgeSegment[],
+  options: SvgExportOptions,
+  gridLines: GridLine[] = [],
+  includeHidden: boolean = true
+): string => {
+  const { precision } = options;
+  const lines = documentStart(options, gridLines);
+
+  lines.push(`<g id="edges" fill="none" stroke="${escapeAttr(options.lineColor)}" stroke-linecap="round">`);
+
+  if (includeHidden) {
+    lines.push(...strokePaths(
+      segments.filter(s => !s.visible),
+      HIDDEN_EDGE_WIDTH,
+      precision,
+      ` stroke-dasharray="${HIDDEN_EDGE_DASH}" stroke-opacity="0.6"`
+    ));
+  }
+
+  const kinds: EdgeKind[] = ['edge', 'crease', 'silhouette'];
+  for (const kind of kinds) {
+    lines.push(...strokePaths(segments.filter(s => s.visible && s.kind === kind), EDGE_STROKE_WIDTHS[kind], precision));
+  }
+
+  lines.push('</g>');
+  lines.push('</svg>');
+
+  return lines.join('\n');
+};
+
+// Render the scene at the export size and serialize it
+export const exportSceneToSvg = (
+  scene: Scene,
+  config: EngineConfig,
+  options: SvgExportOptions,
+  time: number = 0
+): string => {
+  const grid = options.includeGrid
+    ? generateGridFloor(
+        600,
+        24,
+        scene.camera.rotation,
+        scene.camera.position,
+        options.width,
+        options.height,
+        scene.camera.fov,
+        scene.camera.position.z,
+        scene.camera.projection === 'orthographic'
+      ).lines
+    : [];
+
+  if (options.lineArt) {
+    const segments = computeEdgeSegments(scene, config, options.width, options.height, time);
+    return edgesToSvg(segments, options, grid, config.hiddenEdges ?? true);
+  }
+
+  const faces = renderScene(scene, config, options.width, options.height, time);
+  const shadows = config.shadows?.enabled
+    ? generateDropShadows(scene, config, options.width, options.height, time)
+    : [];
+
+  const toon = config.toon?.enabled && config.toon.outlines ? config.toon : undefined;
+  const outlines = toon
+    ? toonOutlineSegments(computeEdgeSegments(scene, config, options.width, options.height, time), toon)
+    : [];
+
+  return facesToSvg(faces, options, grid, {
+    shadows,
+    shadowOpacity: config.shadows?.opacity,
+    outlines,
+    toon,
+  });
+};
@@ -0,0 +1,47 @@
+import { EdgeSegment, RgbColor, ToonSettings } from '@/types/engine';
+
+export const DEFAULT_TOON_SETTINGS: ToonSettings = {
+  enabled: false,
+  bands: 3,
+  ramp: ['#3b3556', '#9a93b8', '#ffffff'],
+  outlines: true,
+  creases: true,
+  outlineWidth: 2,
+  outlineColor: '#111111',
+};
+
+export const MIN_TOON_BANDS = 2;
+export const MAX_TOON_BANDS = 8;
+export const MAX_RAMP_STOPS = 5;
+
+// Creases are inked thinner than silhouettes
+export const CREASE_OUTLINE_SCALE = 0.6;
+
+// Snap a light intensity (0..1) down to one of `bands` evenly spaced levels
+export const toonLevel = (intensity: number, bands: number): number => {
+  const n = Math.max(MIN_TOON_BANDS, Math.round(bands));
+  const band = Math.min(n - 1, Math.floor(Math.max(0, intensity) * n));
+  return band / (n - 1);
+};
+
+// Color at t (0..1) along evenly spaced ramp stops
+export const sampleRamp = (ramp: RgbColor[], t: number): RgbColor => {
+  if (ramp.length === 0) return { r: 1, g: 1, b: 1 };
+  if (ramp.length === 1) return ramp[0];
+  const scaled = Math.max(0, Math.min(1, t)) * (ramp.length - 1);
+  const i = Math.min(ramp.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const a = ramp[i];
+  const b = ramp[i + 1];
+  return {
+    r: a.r + (b.r - a.r) * f,
+    g: a.g + (b.g - a.g) * f,
+    b: a.b + (b.b - a.b) * f,
+  };
+};
+
+// The hidden-line edges the toon style inks: visible silhouettes, plus creases if enabled
+export const toonOutlineSegments = (segments: EdgeSegment[], settings: ToonSettings): EdgeSegment[] =>
+  segments.filter(seg =>
+    seg.visible && (seg.kind === 'silhouette' || (settings.creases && seg.kind === 'crease'))
+  );
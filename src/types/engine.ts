@@ -30,21 +30,56 @@ export interface Material {
 }
 
 // Lighting System
+export type LightType = 'ambient' | 'directional' | 'point' | 'spot';
+
 export interface Light {
-  type: 'ambient' | 'directional' | 'point';
+  id: string;
+  // Display name; a label from the type is used when omitted
+  name?: string;
+  type: LightType;
   color: string;
   intensity: number;
+  // Directional: toward the light. Spot: the way the cone points
   direction?: Vector3;
+  // Point and spot lights
   position?: Vector3;
+  // Point and spot: distance at which the light has faded out completely
+  range?: number;
+  // Spot: half-angle of the cone in degrees, and the fraction of it that fades (0..1)
+  coneAngle?: number;
+  penumbra?: number;
+}
+
+// A named light rig; the built-in day and night rigs cannot be changed
+export interface LightingPreset {
+  id: string;
+  name: string;
+  lights: Light[];
+  builtIn?: boolean;
+}
+
+// Screen-space handle for a point or spot light in the viewport
+export interface LightGizmo {
+  lightId: string;
+  type: LightType;
+  color: string;
+  x: number;
+  y: number;
+  // Spot lights: where the cone axis heads on screen
+  aim?: Vector2;
 }
 
 // Camera System
+export type ProjectionMode = 'perspective' | 'orthographic';
+
 export interface Camera {
   position: Vector3;
   rotation: Vector3;
   fov: number;
   near: number;
   far: number;
+  // Perspective when omitted; orthographic scale follows zoom (fov / distance)
+  projection?: ProjectionMode;
 }
 
 // Face Types
@@ -53,6 +88,9 @@ export interface Face {
   color: string;
   objectId?: string;
   normal?: Vector3;
+  // Per-corner normals in object space, from generators that know the exact
+  // surface; smooth shading uses them instead of averaging neighbouring faces
+  vertexNormals?: Vector3[];
 }
 
 export interface ProjectedFace extends Face {
@@ -60,23 +98,174 @@ export interface ProjectedFace extends Face {
   depth: number;
   lightIntensity: number;
   isSelected?: boolean;
+  // Index of the source face within its object's generated faces
+  faceIndex?: number;
+  // Smooth shading: lit colors ramped across the face in screen space
+  gradient?: FaceGradient;
+  // Faces away from the camera; only kept when back-face culling is off
+  backFacing?: boolean;
+  // Depth cueing: multiplier for this face's stroke width
+  strokeScale?: number;
+}
+
+// Screen-space face normal for the Normals view, from the face center outward
+export interface NormalVector {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  backFacing: boolean;
+}
+
+// Color with 0..1 channels (lighting math; may exceed 1 before clamping)
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Screen-space linear gradient (SVG userSpaceOnUse coordinates)
+export interface FaceGradient {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  from: string;
+  to: string;
+}
+
+// How a mesh edge reads in a line drawing: outline against the background or
+// a back face, a sharp fold between visible faces, or any other drawn edge
+export type EdgeKind = 'silhouette' | 'crease' | 'edge';
+
+// A screen-space run of one mesh edge that is either seen or hidden behind faces
+export interface EdgeSegment {
+  objectId: string;
+  kind: EdgeKind;
+  visible: boolean;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // Depth cueing: multiplier for the stroke width
+  strokeScale?: number;
+}
+
+// Drop shadow of one object on the ground plane: screen-space polygons, all
+// wound the same way so they union when filled as one path
+export interface ShadowShape {
+  objectId: string;
+  polygons: Vector2[][];
+}
+
+// Projected grid floor line (screen space)
+export interface GridLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  opacity: number;
 }
 
 // Object Types
 export type PrimitiveType = 'box' | 'sphere' | 'cylinder' | 'torus' | 'cone' | 'pyramid' | 'metaballs' | 'fluidBlob' | 'cloudVolume';
 
+// Generated primitives plus meshes whose faces come from imported data
+export type ObjectType = PrimitiveType | 'mesh';
+
+// Generation parameters per primitive type, in local units before scale
+export interface BoxParams {
+  size: number;
+}
+
+export interface SphereParams {
+  radius: number;
+  // Around the equator, and pole to pole
+  segments: number;
+  rings: number;
+}
+
+export interface CylinderParams {
+  radius: number;
+  height: number;
+  segments: number;
+}
+
+export interface TorusParams {
+  majorRadius: number;
+  minorRadius: number;
+  // Around the ring, and around the tube
+  segments: number;
+  rings: number;
+}
+
+export interface ConeParams {
+  radius: number;
+  height: number;
+  segments: number;
+}
+
+export interface PyramidParams {
+  size: number;
+  height: number;
+}
+
+export interface MetaballsParams {
+  size: number;
+  blobCount: number;
+}
+
+export interface FluidBlobParams {
+  size: number;
+  particleCount: number;
+}
+
+export interface CloudVolumeParams {
+  size: number;
+  puffCount: number;
+}
+
+export interface PrimitiveParamsMap {
+  box: BoxParams;
+  sphere: SphereParams;
+  cylinder: CylinderParams;
+  torus: TorusParams;
+  cone: ConeParams;
+  pyramid: PyramidParams;
+  metaballs: MetaballsParams;
+  fluidBlob: FluidBlobParams;
+  cloudVolume: CloudVolumeParams;
+}
+
+export type PrimitiveParams = PrimitiveParamsMap[PrimitiveType];
+
+// Imported mesh geometry: indexed polygons in object-local engine space
+export interface MeshData {
+  vertices: Vector3[];
+  faces: number[][];
+}
+
 export interface SceneObject {
   id: string;
   name: string;
-  type: PrimitiveType;
+  type: ObjectType;
   position: Vector3;
   rotation: Vector3;
   scale: Vector3;
   material: Material;
   visible: boolean;
   locked: boolean;
+  // Present when type === 'mesh'
+  mesh?: MeshData;
+  // Primitives: the block for `type`; missing fields use the type's defaults
+  params?: Partial<PrimitiveParams>;
+  // Flat when omitted
+  shading?: ShadingMode;
 }
 
+// Flat: one color per face. Smooth: per-vertex normals interpolated with gradients
+export type ShadingMode = 'flat' | 'smooth';
+
 // SDF Object Types
 export type SDFPrimitiveType = 'sdfBox' | 'sdfSphere' | 'sdfTorus' | 'sdfCapsule' | 'sdfOctahedron' | 'sdfPyramid' | 'boolean';
 export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'smoothUnion' | 'smoothSubtract' | 'smoothIntersect';
@@ -105,9 +294,30 @@ export interface Scene {
   camera: Camera;
   cursor3D: Vector3;
   selectedObjectId: string | null;
+  // A selected light replaces any object selection and vice versa
+  selectedLightId: string | null;
   gridVisible: boolean;
   axisVisible: boolean;
-  lightingMode: 'day' | 'night';
+  // Id of the lighting preset last applied ('day', 'night' or a saved preset)
+  lightingMode: string;
+  // Atmospheric fog; none when omitted
+  fog?: FogSettings;
+}
+
+export type FogMode = 'linear' | 'exponential';
+
+// Depth cueing: faces blend toward the fog color with viewing depth
+export interface FogSettings {
+  enabled: boolean;
+  mode: FogMode;
+  color: string;
+  // Viewing depth where fog begins, and (linear) where it becomes solid
+  start: number;
+  end: number;
+  // Exponential: depth past start over which the clear view halves
+  halfDistance: number;
+  // Narrow strokes on distant faces and edges
+  thinStrokes: boolean;
 }
 
 // Tool Types
@@ -117,11 +327,36 @@ export type ToolType = 'select' | 'move' | 'rotate' | 'scale';
 export type EngineType = 'classic' | 'sdflux';
 
 // Render Modes
-export type RenderMode = 'solid' | 'wireframe' | 'normals' | 'xray';
+export type RenderMode = 'solid' | 'wireframe' | 'hiddenLine' | 'normals' | 'xray';
 
 // Camera Presets
 export type CameraPreset = 'perspective' | 'front' | 'back' | 'top' | 'left' | 'right';
 
+// Viewport Layout (one, two side by side, or a 2x2 quad)
+export type ViewportLayout = 'single' | 'split' | 'quad';
+
+// Per-pane view state for split viewports
+export interface ViewportView {
+  camera: Camera;
+  preset: CameraPreset;
+  renderMode: RenderMode;
+  gridVisible: boolean;
+}
+
+// Render Settings (viewport state persisted alongside a scene)
+export interface RenderSettings {
+  renderMode: RenderMode;
+  cameraPreset: CameraPreset;
+  gridVisible: boolean;
+  axisVisible: boolean;
+  // Defaults apply when omitted
+  shadows?: ShadowSettings;
+  hiddenEdges?: boolean;
+  normalColors?: boolean;
+  toon?: ToonSettings;
+  lodQuality?: LodQuality;
+}
+
 // Timeline State
 export interface TimelineState {
   currentFrame: number;
@@ -149,4 +384,54 @@ export interface EngineConfig {
   ambientIntensity: number;
   directionalIntensity: number;
   lightDirection: Vector3;
+  sortMode?: FaceSortMode;
+  // Planar drop shadows on the ground plane; none when omitted
+  shadows?: ShadowSettings;
+  // Hidden-line mode draws occluded edges dashed instead of leaving them out
+  hiddenEdges?: boolean;
+  // Normals mode fills faces with their world-space normal as RGB
+  normalColors?: boolean;
+  // Back faces are dropped unless this is false (X-Ray and Normals keep them)
+  cullBackFaces?: boolean;
+  // Cel shading and ink outlines; plain lighting when omitted
+  toon?: ToonSettings;
+  // How finely curved primitives are tessellated for their size on screen
+  lodQuality?: LodQuality;
+}
+
+// Level-of-detail quality: coarse for interactive editing, fine for export
+export type LodQuality = 'draft' | 'normal' | 'high';
+
+// Toon style: light snapped into bands tinted from a ramp, plus outlines
+export interface ToonSettings {
+  enabled: boolean;
+  // Number of light levels, 2..8
+  bands: number;
+  // Light tints from the darkest band to the brightest (#rrggbb, 2+ stops),
+  // multiplied with each material color
+  ramp: string[];
+  // Ink silhouettes, and optionally creases, over solid faces
+  outlines: boolean;
+  creases: boolean;
+  outlineWidth: number;
+  outlineColor: string;
+}
+
+export interface ShadowSettings {
+  enabled: boolean;
+  // 0..1
+  opacity: number;
+}
+
+// Visibility ordering: per-face depth sort or a BSP tree with polygon splitting
+export type FaceSortMode = 'painter' | 'bsp';
+
+// Per-frame render cost, filled in by renderScene when requested
+export interface RenderStats {
+  faces: number;
+  splits: number;
+  sortMs: number;
+  // Primitive geometry cache lookups this frame
+  cacheHits: number;
+  cacheMisses: number;
 }
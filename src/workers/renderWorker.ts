@@ -0,0 +1,14 @@
+import { RenderRequest, RenderResponse, renderFrame, packFrame, frameTransferables } from '@/lib/frameBuffers';
+import { createLodMemory } from '@/lib/lod';
+
+// Each viewport has its own worker, so one memory holds that view's levels
+const lod = createLodMemory();
+
+// Renders viewport frames off the main thread and hands the packed buffers
+// back without copying. Errors surface as the worker's `error` event.
+self.onmessage = (event: MessageEvent<RenderRequest>) => {
+  const { id, job } = event.data;
+  const frame = packFrame(renderFrame(job, lod));
+  const response: RenderResponse = { id, frame };
+  self.postMessage(response, { transfer: frameTransferables(frame) });
+};